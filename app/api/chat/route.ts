@@ -2,38 +2,76 @@ import { type NextRequest, NextResponse } from "next/server"
 import Anthropic from "@anthropic-ai/sdk"
 import { createClient } from "@/lib/supabase/server"
 import { createSupabaseAdminClient } from "@/lib/supabase/admin"
-import { OpenAI } from "openai"
-import { decryptApiKey } from "@/lib/encryption"
+import { getAnthropicApiKey } from "@/lib/api-keys"
+import type { Database, MessageSource, SearchQuery } from "@/types/database"
+import { formatSourcePages } from "@/lib/chat/sources"
+import { headingPathFromContext } from "@/lib/documents/headings"
+import { resolveRetrievalSettings } from "@/lib/chat/retrieval-settings"
+import { selectContextChunks } from "@/lib/chat/context-selection"
+import { resolveDocumentScope } from "@/lib/chat/document-scope"
+import {
+  DEFAULT_QUERY_MODE,
+  QUERY_REWRITE_MODEL,
+  fuseResultLists,
+  isQueryMode,
+  needsQueryRewrite,
+  rewriteQuery,
+} from "@/lib/chat/query-rewriting"
+import { getReranker } from "@/lib/reranking/rerankers"
+import { NoopReranker } from "@/lib/reranking/none"
+import { loadConversationMemory } from "@/lib/chat/memory"
+import { DEFAULT_CHAT_MODEL, MAX_OUTPUT_TOKENS, estimateTokens } from "@/lib/chat/models"
+import { getAncestorPath } from "@/lib/chat/message-tree"
+import { refreshThreadMetadata } from "@/lib/chat/thread-metadata"
+import { recordUsage } from "@/lib/usage/ledger"
+import { getEmbeddingProviderUnavailableReason, toStoredEmbedding } from "@/lib/embeddings/provider"
+import { getEmbeddingProvider } from "@/lib/embeddings/providers"
+import {
+  CHAT_STREAM_CONTENT_TYPE,
+  encodeChatEvent,
+  type ChatStreamEvent,
+} from "@/lib/chat/stream-events"
 
-export const runtime = "edge"
+// Node.js rather than edge: projects may embed queries with the local transformers.js model
+export const runtime = "nodejs"
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+type MessageInsert = Database["public"]["Tables"]["messages"]["Insert"]
 
-async function getAnthropicApiKey(userId: string, supabaseClient: any): Promise<string | null> {
-  const { data: userSettings, error } = await supabaseClient
-    .from("user_settings")
-    .select("anthropic_api_key")
-    .eq("user_id", userId)
-    .single()
+// Saving at a taken position fails on messages_sibling_position_idx; a few retries cover concurrent saves
+const MAX_SIBLING_INSERT_ATTEMPTS = 5
 
-  if (error && error.code !== "PGRST116") {
-    console.error("Error fetching API key from user_settings:", error)
-    return null
-  }
-  if (!userSettings?.anthropic_api_key) {
-    console.warn("Anthropic API key not found for user:", userId)
-    return null
-  }
+// Saves a message at the next position under its parent, so regenerated/edited alternatives are ordered
+// as siblings. Two concurrent saves can read the same position; the unique index rejects the second,
+// which then retries with the next free one.
+async function insertSiblingMessage(
+  supabaseClient: any,
+  row: Omit<MessageInsert, "sibling_index"> & { chat_thread_id: string },
+): Promise<string> {
+  const parentMessageId = row.parent_message_id ?? null
+  for (let attempt = 0; attempt < MAX_SIBLING_INSERT_ATTEMPTS; attempt++) {
+    let query = supabaseClient
+      .from("messages")
+      .select("sibling_index")
+      .eq("chat_thread_id", row.chat_thread_id)
+    query = parentMessageId ? query.eq("parent_message_id", parentMessageId) : query.is("parent_message_id", null)
+    const { data: lastSibling, error: siblingError } = await query
+      .order("sibling_index", { ascending: false })
+      .limit(1)
+    if (siblingError) {
+      throw new Error(`Failed to read sibling positions: ${siblingError.message}`)
+    }
 
-  try {
-    const decryptedKey = await decryptApiKey(userSettings.anthropic_api_key)
-    return decryptedKey
-  } catch (decryptionError) {
-    console.error("Failed to decrypt API key for chat:", decryptionError)
-    return null
+    const { data, error } = await supabaseClient
+      .from("messages")
+      .insert({ ...row, sibling_index: lastSibling?.length ? lastSibling[0].sibling_index + 1 : 0 })
+      .select("id")
+      .single()
+    if (!error) return data.id
+    if (error.code !== "23505") {
+      throw new Error(`Failed to save message: ${error.message}`)
+    }
   }
+  throw new Error("Failed to save message: no free sibling position after concurrent saves")
 }
 
 export async function POST(req: NextRequest) {
@@ -49,16 +87,27 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json()
-    const { message, chatThreadId, projectId, model: requestedModel, history } = body
+    const {
+      message: submittedMessage,
+      chatThreadId,
+      projectId,
+      model: requestedModel,
+      parentMessageId, // Message the new prompt follows; defaults to the thread's active leaf
+      editMessageId, // User message being edited: the new prompt becomes its sibling
+      regenerateMessageId, // Assistant message to regenerate: a new reply is added under the same prompt
+      documentIds, // Documents to search for this message only; omitted uses the thread's scope, null the whole project
+    } = body
 
-    if (!message || !chatThreadId || !projectId) {
+    if ((!submittedMessage && !regenerateMessageId) || !chatThreadId || !projectId) {
       return NextResponse.json({ error: "Missing message, chatThreadId, or projectId" }, { status: 400 })
     }
 
     // Verify user owns the chat thread and project
     const { data: threadData, error: threadError } = await supabase
       .from("chat_threads")
-      .select("id, project_id, model")
+      .select(
+        "id, project_id, title, synopsis, model, summary, summarized_through_message_id, active_leaf_id, document_scope",
+      )
       .eq("id", chatThreadId)
       .eq("user_id", user.id)
       .eq("project_id", projectId)
@@ -69,6 +118,54 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Chat thread not found or access denied" }, { status: 404 })
     }
 
+    const { data: threadMessages, error: threadMessagesError } = await supabase
+      .from("messages")
+      .select("id, role, content, created_at, parent_message_id, sibling_index")
+      .eq("chat_thread_id", chatThreadId)
+    if (threadMessagesError) {
+      console.error("Failed to load thread messages:", threadMessagesError)
+      return NextResponse.json({ error: "Failed to load chat thread history" }, { status: 500 })
+    }
+    const findThreadMessage = (id: unknown) => (threadMessages || []).find((m) => m.id === id)
+
+    // Work out where in the message tree this turn goes
+    let message: string
+    let parentId: string | null
+    let existingUserMessageId: string | null = null
+    if (regenerateMessageId) {
+      const target = findThreadMessage(regenerateMessageId)
+      const prompt = target && findThreadMessage(target.parent_message_id)
+      if (!target || target.role !== "assistant" || !prompt || prompt.role !== "user") {
+        return NextResponse.json({ error: "Message to regenerate not found in this chat thread" }, { status: 400 })
+      }
+      message = prompt.content
+      parentId = prompt.parent_message_id
+      existingUserMessageId = prompt.id
+    } else if (editMessageId) {
+      const target = findThreadMessage(editMessageId)
+      if (!target || target.role !== "user") {
+        return NextResponse.json({ error: "Message to edit not found in this chat thread" }, { status: 400 })
+      }
+      message = submittedMessage
+      parentId = target.parent_message_id
+    } else {
+      if (parentMessageId && !findThreadMessage(parentMessageId)) {
+        return NextResponse.json({ error: "Parent message not found in this chat thread" }, { status: 400 })
+      }
+      message = submittedMessage
+      parentId = parentMessageId || threadData.active_leaf_id || null
+    }
+    const branchHistory = getAncestorPath(threadMessages || [], parentId)
+
+    let documentScope = threadData.document_scope
+    if (documentIds !== undefined) {
+      const scope = await resolveDocumentScope(supabase, user.id, projectId, documentIds)
+      if (scope.error !== undefined) {
+        return NextResponse.json({ error: scope.error }, { status: 400 })
+      }
+      documentScope = scope.documentIds
+    }
+
     const anthropicApiKey = await getAnthropicApiKey(user.id, supabase)
     if (!anthropicApiKey) {
       return NextResponse.json(
@@ -81,34 +178,170 @@ export async function POST(req: NextRequest) {
 
     // 1. RAG: Fetch relevant document chunks for the projectId
     let contextText = ""
+    let sources: MessageSource[] = []
+    let searchQueries: SearchQuery[] | null = null // Set when retrieval searched something other than the raw prompt
     const supabaseAdmin = createSupabaseAdminClient() // Correctly initialize admin client
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn("OPENAI_API_KEY is not set. Skipping RAG.")
+    const { data: projectSettings, error: settingsError } = await supabase
+      .from("projects")
+      .select("retrieval_settings, embedding_provider")
+      .eq("id", projectId)
+      .single()
+    if (settingsError) {
+      console.error("[RAG] Error fetching project settings, using defaults:", settingsError)
+    }
+    const embeddingProvider = getEmbeddingProvider(projectSettings?.embedding_provider)
+    const embeddingUnavailableReason = getEmbeddingProviderUnavailableReason(embeddingProvider.id)
+
+    if (embeddingUnavailableReason) {
+      console.warn(`[RAG] ${embeddingUnavailableReason}. Skipping RAG.`)
     } else {
       try {
+        const retrievalSettings = resolveRetrievalSettings(projectSettings?.retrieval_settings)
+
+        // Follow-ups are rewritten into standalone queries; the raw prompt is searched if that fails
+        let searchText = message
+        const queryMode = isQueryMode(retrievalSettings.queryMode) ? retrievalSettings.queryMode : DEFAULT_QUERY_MODE
+        if (queryMode !== "raw" && needsQueryRewrite(queryMode, branchHistory)) {
+          try {
+            const rewritten = await rewriteQuery(anthropic, message, branchHistory, queryMode)
+            searchQueries = rewritten.queries
+            searchText = rewritten.queries[0].text
+            await recordUsage({
+              userId: user.id,
+              projectId,
+              model: QUERY_REWRITE_MODEL,
+              kind: "query_rewrite",
+              inputTokens: rewritten.inputTokens,
+              outputTokens: rewritten.outputTokens,
+            })
+          } catch (rewriteError) {
+            console.error(`[RAG] Query rewriting ("${queryMode}") failed, searching the raw message:`, rewriteError)
+          }
+        }
+        const queries: SearchQuery[] = searchQueries ?? [{ kind: "standalone", text: message }]
+        const scopeLabel = documentScope ? ` limited to ${documentScope.length} documents` : ""
         console.log(
-          `[RAG] Attempting to fetch context for project ${projectId} with user query: "${message.substring(0, 50)}..."`,
+          `[RAG] Attempting to fetch context for project ${projectId}${scopeLabel} with ${queries.length} ` +
+            `quer${queries.length === 1 ? "y" : "ies"}: ` +
+            queries.map((query) => `${query.kind} "${query.text.substring(0, 50)}..."`).join(", "),
         )
-        const embeddingResponse = await openai.embeddings.create({
-          model: "text-embedding-3-small",
-          input: message,
-        })
-        const queryEmbedding = embeddingResponse.data[0].embedding
-        console.log("[RAG] Query embedding generated.")
-
-        const { data: chunks, error: matchError } = await supabaseAdmin.rpc("match_document_chunks", {
-          query_embedding: queryEmbedding,
-          match_threshold: 0.7, // Adjust as needed
-          match_count: 5, // Number of chunks to retrieve
-          filter_user_id: user.id,
-          filter_project_id: projectId,
+
+        const { embeddings, tokens: embeddingTokens } = await embeddingProvider.embedBatch(
+          queries.map((query) => query.text),
+        )
+        console.log(`[RAG] Query embeddings generated with ${embeddingProvider.model}.`)
+        await recordUsage({
+          userId: user.id,
+          projectId,
+          model: embeddingProvider.model,
+          kind: "query_embedding",
+          inputTokens: embeddingTokens,
         })
 
+        // One hybrid search per query. A HyDE passage only stands in for the question's embedding;
+        // keyword matching still uses the standalone query.
+        // Over-fetch: the reranker picks the best matchCount out of a larger candidate pool
+        const candidateCount = Math.max(retrievalSettings.candidateCount, retrievalSettings.matchCount)
+        const searches = await Promise.all(
+          queries.map((query, i) =>
+            supabaseAdmin.rpc("hybrid_match_document_chunks", {
+              query_text: query.kind === "hypothetical" ? searchText : query.text,
+              query_embedding: toStoredEmbedding(embeddings[i]),
+              match_threshold: retrievalSettings.matchThreshold,
+              match_count: candidateCount,
+              full_text_weight: retrievalSettings.fullTextWeight,
+              semantic_weight: retrievalSettings.semanticWeight,
+              rrf_k: retrievalSettings.rrfK,
+              filter_user_id: user.id,
+              filter_project_id: projectId,
+              filter_embedding_model: embeddingProvider.model,
+              filter_document_ids: documentScope,
+            }),
+          ),
+        )
+        const matchError = searches.find((search) => search.error)?.error
+        // Results of several queries are merged by rank, so chunks several of them found come first
+        const candidates = fuseResultLists(
+          searches.map(
+            (search) => (search.data || []) as Database["public"]["Functions"]["hybrid_match_document_chunks"]["Returns"],
+          ),
+          retrievalSettings.rrfK,
+          candidateCount,
+        )
+
         if (matchError) {
           console.error("[RAG] Error matching document chunks:", matchError)
-        } else if (chunks && chunks.length > 0) {
-          contextText = chunks.map((chunk: any) => chunk.content).join("\n\n")
+        } else if (candidates.length > 0) {
+          const reranker = getReranker(retrievalSettings.reranker, anthropic)
+          const rerankStart = Date.now()
+          let scores: number[]
+          try {
+            const reranked = await reranker.rerank(searchText, candidates)
+            scores = reranked.scores
+            if (reranker.model) {
+              await recordUsage({
+                userId: user.id,
+                projectId,
+                model: reranker.model,
+                kind: "rerank",
+                inputTokens: reranked.inputTokens,
+                outputTokens: reranked.outputTokens,
+              })
+            }
+          } catch (rerankError) {
+            console.error(`[RAG] Reranker "${reranker.id}" failed, keeping hybrid search order:`, rerankError)
+            scores = (await new NoopReranker().rerank(searchText, candidates)).scores
+          }
+
+          const decisions = selectContextChunks(candidates, scores, {
+            maxChunks: retrievalSettings.matchCount,
+            tokenBudget: retrievalSettings.contextTokenBudget,
+          })
+          console.log(
+            `[RAG] Reranked ${candidates.length} candidates with "${reranker.id}" in ${Date.now() - rerankStart}ms:\n` +
+              decisions
+                .map(
+                  ({ candidate, score, outcome }, rank) =>
+                    `  #${rank + 1} rerank=${score.toFixed(3)} hybrid=${candidate.score.toFixed(4)} similarity=${candidate.similarity.toFixed(3)} ` +
+                    `${outcome} ${candidate.document_id.slice(0, 8)}#${candidate.chunk_index ?? "?"}`,
+                )
+                .join("\n"),
+          )
+          const selected = decisions.filter((decision) => decision.outcome === "selected")
+          const chunks = selected.map((decision) => decision.candidate)
+
+          // Resolve document names so each source block can be attributed to its file
+          const documentIds = [...new Set(chunks.map((chunk: any) => chunk.document_id as string))]
+          const { data: sourceDocuments, error: documentsError } = await supabaseAdmin
+            .from("documents")
+            .select("id, name")
+            .in("id", documentIds)
+          if (documentsError) {
+            console.error("[RAG] Error fetching source document names:", documentsError)
+          }
+          const documentNames = new Map((sourceDocuments || []).map((doc: any) => [doc.id, doc.name as string]))
+
+          sources = chunks.map((chunk: any, i: number) => ({
+            index: i + 1,
+            chunkId: chunk.id,
+            documentId: chunk.document_id,
+            documentName: documentNames.get(chunk.document_id) || "Unknown document",
+            chunkIndex: chunk.chunk_index ?? null,
+            pageStart: chunk.page_start ?? null,
+            pageEnd: chunk.page_end ?? null,
+            headingPath: headingPathFromContext(chunk.context),
+            similarity: chunk.similarity,
+            rerankScore: selected[i].score,
+          }))
+          // The heading breadcrumb tells the model which section a chunk belongs to when its text doesn't say
+          contextText = chunks
+            .map((chunk: any, i: number) => {
+              const pages = formatSourcePages(sources[i])
+              const section = sources[i].headingPath ? ` > ${sources[i].headingPath}` : ""
+              return `[${i + 1}] ${sources[i].documentName}${section}${pages ? ` (${pages})` : ""}\n${chunk.content}`
+            })
+            .join("\n\n")
           console.log(`[RAG] Found ${chunks.length} relevant chunks. Context length: ${contextText.length}`)
         } else {
           console.log("[RAG] No relevant chunks found for the query.")
@@ -119,40 +352,81 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    const systemPrompt = `You are a helpful AI assistant.
+    let systemPrompt = `You are a helpful AI assistant.
 ${
   contextText
     ? `IMPORTANT: Base your answer on the following context provided from the user's project documents. If the user's question is directly addressed by this context, prioritize using it.
+The context is split into numbered source blocks, each starting with [n], the document name and, where known, the section headings the block sits under.
 Context:
 ---
 ${contextText}
 ---
-When using the context, be direct and act as if you have full knowledge of these documents.`
+When using the context, be direct and act as if you have full knowledge of these documents.
+Cite the source blocks you rely on inline with their number in square brackets, e.g. [1] or [2][3]. Only cite numbers that appear above.`
     : "You do not have specific project documents for context. Answer based on your general knowledge."
 }
 Always be helpful and honest.
 `
 
-    // Construct messages for Anthropic API
-    const messagesForApi: Anthropic.Messages.MessageParam[] = []
-    if (history && Array.isArray(history)) {
-      messagesForApi.push(
-        ...history.map((h: { role: "user" | "assistant"; content: string }) => ({ role: h.role, content: h.content })),
-      )
-    }
-    messagesForApi.push({ role: "user", content: message })
-
     // Determine model to use
-    const effectiveModel = requestedModel || threadData.model || "claude-3-5-sonnet-20241022"
+    const effectiveModel = requestedModel || threadData.model || DEFAULT_CHAT_MODEL
 
-    // Save user message first
-    const { error: userMessageError } = await supabase.from("messages").insert({
-      chat_thread_id: chatThreadId,
-      role: "user",
-      content: message,
+    // Load prior turns server-side (before this message is saved) within the model's token budget
+    const memory = await loadConversationMemory({
+      supabase,
+      anthropic,
+      userId: user.id,
+      projectId,
+      chatThreadId,
+      turns: branchHistory,
+      summary: threadData.summary,
+      summarizedThroughMessageId: threadData.summarized_through_message_id,
+      model: effectiveModel,
+      reservedTokens: estimateTokens(systemPrompt) + estimateTokens(message) + MAX_OUTPUT_TOKENS,
     })
-    if (userMessageError) {
-      console.error("Failed to save user message:", userMessageError)
+
+    if (memory.summary) {
+      systemPrompt += `
+Summary of the earlier part of this conversation (older turns are not included verbatim):
+---
+${memory.summary}
+---
+`
+    }
+
+    // Construct messages for Anthropic API
+    const messagesForApi: Anthropic.Messages.MessageParam[] = memory.history
+    const lastTurn = messagesForApi[messagesForApi.length - 1]
+    if (lastTurn?.role === "user") {
+      // The previous prompt never got a saved answer; send both together
+      lastTurn.content = `${lastTurn.content}\n\n${message}`
+    } else {
+      messagesForApi.push({ role: "user", content: message })
+    }
+
+    // Save user message first (a regenerated reply reuses the existing prompt)
+    let userMessageId = existingUserMessageId
+    if (!userMessageId) {
+      try {
+        userMessageId = await insertSiblingMessage(supabase, {
+          chat_thread_id: chatThreadId,
+          role: "user",
+          content: message,
+          parent_message_id: parentId,
+        })
+      } catch (userMessageError) {
+        console.error("Failed to save user message:", userMessageError)
+        return NextResponse.json({ error: "Failed to save message" }, { status: 500 })
+      }
+    }
+    if (userMessageId) {
+      const { error: leafError } = await supabase
+        .from("chat_threads")
+        .update({ active_leaf_id: userMessageId })
+        .eq("id", chatThreadId)
+      if (leafError) {
+        console.error("Failed to update active branch:", leafError)
+      }
     }
 
     // Create Anthropic stream
@@ -161,58 +435,136 @@ Always be helpful and honest.
       messages: messagesForApi,
       system: systemPrompt,
       stream: true,
-      max_tokens: 4000,
+      max_tokens: MAX_OUTPUT_TOKENS,
     })
 
-    // Create a custom readable stream
+    // Re-emit the Anthropic stream as typed SSE events. The client may go away at any point, and
+    // always may once "done" is out, so sends and the close become no-ops after a cancel.
+    let streamCancelled = false
     const stream = new ReadableStream({
       async start(controller) {
         const textEncoder = new TextEncoder()
+        const send = (event: ChatStreamEvent) => {
+          if (!streamCancelled) controller.enqueue(textEncoder.encode(encodeChatEvent(event)))
+        }
+        const close = () => {
+          if (!streamCancelled) controller.close()
+        }
+        let doneSent = false
         let fullAssistantResponse = ""
+        const usage = { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 }
+
+        send({ type: "message_start", userMessageId, model: effectiveModel })
+        if (searchQueries) {
+          send({ type: "search_queries", queries: searchQueries })
+        }
+        if (sources.length > 0) {
+          send({ type: "sources", sources })
+        }
 
         try {
           for await (const event of anthropicStream) {
-            if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+            if (event.type === "message_start") {
+              usage.inputTokens = event.message.usage.input_tokens
+              usage.outputTokens = event.message.usage.output_tokens
+              usage.cacheCreationInputTokens = event.message.usage.cache_creation_input_tokens ?? 0
+              usage.cacheReadInputTokens = event.message.usage.cache_read_input_tokens ?? 0
+            } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
               const text = event.delta.text
               fullAssistantResponse += text
-              controller.enqueue(textEncoder.encode(text))
+              send({ type: "text_delta", text })
+            } else if (event.type === "message_delta") {
+              usage.outputTokens = event.usage.output_tokens
             } else if (event.type === "message_stop") {
+              send({ type: "usage", usage })
+              await recordUsage({ userId: user.id, projectId, model: effectiveModel, kind: "chat", ...usage })
+
               // Save assistant message
-              const { error: assistantMessageError } = await supabase.from("messages").insert({
-                chat_thread_id: chatThreadId,
-                role: "assistant",
-                content: fullAssistantResponse,
-              })
-              if (assistantMessageError) {
+              let assistantMessageId: string | null = null
+              try {
+                assistantMessageId = await insertSiblingMessage(supabase, {
+                  chat_thread_id: chatThreadId,
+                  role: "assistant",
+                  content: fullAssistantResponse,
+                  tokens_used: usage.inputTokens + usage.outputTokens,
+                  input_tokens: usage.inputTokens,
+                  output_tokens: usage.outputTokens,
+                  cache_creation_input_tokens: usage.cacheCreationInputTokens,
+                  cache_read_input_tokens: usage.cacheReadInputTokens,
+                  sources: sources.length > 0 ? sources : null,
+                  search_queries: searchQueries,
+                  parent_message_id: userMessageId,
+                })
+                send({ type: "message_saved", assistantMessageId })
+              } catch (assistantMessageError) {
                 console.error("Failed to save assistant message:", assistantMessageError)
+                send({ type: "error", message: "The response could not be saved to this chat thread." })
               }
 
-              // Update chat_thread timestamp
-              await supabase
+              // Update chat_thread timestamp and move the active branch to the new reply
+              const { error: updateError } = await supabase
                 .from("chat_threads")
-                .update({ updated_at: new Date().toISOString() })
+                .update({
+                  updated_at: new Date().toISOString(),
+                  ...(assistantMessageId ? { active_leaf_id: assistantMessageId } : {}),
+                })
                 .eq("id", chatThreadId)
-                .catch((updateError) => console.error("Failed to update thread timestamp:", updateError))
+              if (updateError) {
+                console.error("Failed to update chat thread:", updateError)
+              }
+
+              // The reply is complete, so let the client unlock before the title/synopsis model call
+              send({ type: "done" })
+              doneSent = true
 
-              controller.close()
+              // Name the thread after its first exchange and keep the list synopsis current
+              if (assistantMessageId) {
+                const threadUpdate = await refreshThreadMetadata({
+                  supabase,
+                  anthropic,
+                  userId: user.id,
+                  projectId,
+                  chatThreadId,
+                  title: threadData.title,
+                  synopsis: threadData.synopsis,
+                  turns: [
+                    ...branchHistory,
+                    { role: "user", content: message },
+                    { role: "assistant", content: fullAssistantResponse },
+                  ],
+                })
+                if (threadUpdate) {
+                  send({ type: "thread_updated", ...threadUpdate })
+                }
+              }
+
+              close()
               return
             }
           }
+
+          send({ type: "error", message: "The model stream ended before the response was complete." })
+          send({ type: "done" })
+          close()
         } catch (streamError) {
-          console.error("Streaming error:", streamError)
-          const errorMessage = `Streaming error: ${(streamError as Error).message}`
-          controller.enqueue(textEncoder.encode(errorMessage))
-          controller.close()
+          console.error(doneSent ? "Error after the reply completed:" : "Streaming error:", streamError)
+          // Once "done" is out the client has its reply; a second error/done pair would only confuse it
+          if (!doneSent) {
+            send({ type: "error", message: (streamError as Error).message || "Streaming failed" })
+            send({ type: "done" })
+          }
+          close()
         }
       },
       cancel() {
+        streamCancelled = true
         console.log("Stream cancelled by client.")
       },
     })
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Type": CHAT_STREAM_CONTENT_TYPE,
         "Cache-Control": "no-cache",
         Connection: "keep-alive",
       },
@@ -0,0 +1,75 @@
+// API route to switch which branch of a chat thread is shown (e.g. "2/3" version switcher)
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { findLatestLeaf, getActivePath } from "@/lib/chat/message-tree"
+
+export const runtime = "edge"
+
+// PUT /api/chat_threads/[threadId]/active_branch - Make the branch through messageId active
+export async function PUT(request: NextRequest, { params }: { params: { threadId: string } }) {
+  const threadId = params.threadId
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!threadId) {
+      return NextResponse.json({ error: "Chat Thread ID is required" }, { status: 400 })
+    }
+
+    const { messageId } = (await request.json()) as { messageId?: string }
+    if (!messageId) {
+      return NextResponse.json({ error: "Message ID is required" }, { status: 400 })
+    }
+
+    const { data: threadCheck } = await supabase
+      .from("chat_threads")
+      .select("id")
+      .eq("id", threadId)
+      .eq("user_id", user.id)
+      .single()
+
+    if (!threadCheck) {
+      return NextResponse.json({ error: "Chat thread not found or access denied" }, { status: 404 })
+    }
+
+    const { data: messages, error } = await supabase
+      .from("messages")
+      .select("*")
+      .eq("chat_thread_id", threadId)
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      console.error("Error fetching messages:", error)
+      return NextResponse.json({ error: "Failed to fetch messages" }, { status: 500 })
+    }
+    if (!messages?.some((message) => message.id === messageId)) {
+      return NextResponse.json({ error: "Message not found in this chat thread" }, { status: 404 })
+    }
+
+    const activeLeafId = findLatestLeaf(messages, messageId)
+    const { error: updateError } = await supabase
+      .from("chat_threads")
+      .update({ active_leaf_id: activeLeafId })
+      .eq("id", threadId)
+      .eq("user_id", user.id)
+
+    if (updateError) {
+      console.error("Error updating active branch:", updateError)
+      return NextResponse.json({ error: "Failed to switch branch" }, { status: 500 })
+    }
+
+    return NextResponse.json(getActivePath(messages, activeLeafId))
+  } catch (error) {
+    console.error("API Error switching branch:", error)
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import {
+  buildThreadExport,
+  isThreadExportFormat,
+  renderThreadMarkdown,
+  THREAD_EXPORT_FORMATS,
+} from "@/lib/chat/transcript"
+import { renderThreadPdf } from "@/lib/chat/transcript-pdf"
+
+export const runtime = "edge"
+
+function exportFilename(title: string | null, extension: string): string {
+  const slug = (title || "chat")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+  return `${slug || "chat"}.${extension}`
+}
+
+// GET /api/chat_threads/[threadId]/export?format=md|json|pdf - Download a thread
+// JSON holds every branch and re-imports losslessly; Markdown and PDF contain the active branch
+export async function GET(request: NextRequest, { params }: { params: { threadId: string } }) {
+  const threadId = params.threadId
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!threadId) {
+      return NextResponse.json({ error: "Chat Thread ID is required" }, { status: 400 })
+    }
+
+    const format = request.nextUrl.searchParams.get("format") || "md"
+    if (!isThreadExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${THREAD_EXPORT_FORMATS.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    const { data: thread, error: threadError } = await supabase
+      .from("chat_threads")
+      .select("*")
+      .eq("id", threadId)
+      .eq("user_id", user.id)
+      .single()
+
+    if (threadError || !thread) {
+      return NextResponse.json({ error: "Chat thread not found or access denied" }, { status: 404 })
+    }
+
+    const { data: messages, error } = await supabase
+      .from("messages")
+      .select("*")
+      .eq("chat_thread_id", threadId)
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      console.error("Error fetching messages for export:", error)
+      return NextResponse.json({ error: "Failed to fetch messages" }, { status: 500 })
+    }
+
+    const exported = buildThreadExport(thread, messages || [])
+    const disposition = `attachment; filename="${exportFilename(thread.title, format)}"`
+
+    if (format === "json") {
+      return new NextResponse(JSON.stringify(exported, null, 2), {
+        headers: { "Content-Type": "application/json; charset=utf-8", "Content-Disposition": disposition },
+      })
+    }
+    if (format === "pdf") {
+      const pdf = await renderThreadPdf(exported)
+      return new NextResponse(pdf, {
+        headers: { "Content-Type": "application/pdf", "Content-Disposition": disposition },
+      })
+    }
+    return new NextResponse(renderThreadMarkdown(exported), {
+      headers: { "Content-Type": "text/markdown; charset=utf-8", "Content-Disposition": disposition },
+    })
+  } catch (error) {
+    console.error("API Error exporting chat thread:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
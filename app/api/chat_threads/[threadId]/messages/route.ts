@@ -1,6 +1,7 @@
 // New API route to fetch messages for a specific chat thread
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import { getActivePath } from "@/lib/chat/message-tree"
 
 export const runtime = "edge"
 
@@ -25,7 +26,7 @@ export async function GET(request: NextRequest, { params }: { params: { threadId
     // in chat_threads they own.
     const { data: threadCheck } = await supabase
       .from("chat_threads")
-      .select("id")
+      .select("id, active_leaf_id")
       .eq("id", threadId)
       .eq("user_id", user.id)
       .single()
@@ -44,7 +45,9 @@ export async function GET(request: NextRequest, { params }: { params: { threadId
       console.error("Error fetching messages:", error)
       return NextResponse.json({ error: "Failed to fetch messages" }, { status: 500 })
     }
-    return NextResponse.json(messages)
+
+    // Only the active branch is returned; siblingIds lets the client switch between alternatives
+    return NextResponse.json(getActivePath(messages || [], threadCheck.active_leaf_id))
   } catch (error) {
     console.error("API Error fetching messages:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
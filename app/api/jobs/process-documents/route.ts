@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { runDocumentWorker } from "@/lib/jobs/document-worker"
+
+export const runtime = "nodejs"
+export const maxDuration = 300
+
+// Stop claiming new jobs after this long, leaving the rest of maxDuration for the job in flight
+const CLAIM_WINDOW_MS = 240000
+
+// GET /api/jobs/process-documents - Run the document job worker (Vercel Cron, see vercel.json)
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not set; refusing to run the document worker")
+    return NextResponse.json({ error: "Worker is not configured" }, { status: 500 })
+  }
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const workerId = `worker-${crypto.randomUUID()}`
+    const result = await runDocumentWorker({ workerId, deadline: Date.now() + CLAIM_WINDOW_MS })
+    return NextResponse.json({ workerId, ...result })
+  } catch (error) {
+    console.error("Document worker error:", error)
+    return NextResponse.json({ error: "Document worker failed" }, { status: 500 })
+  }
+}
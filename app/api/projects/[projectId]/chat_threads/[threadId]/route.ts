@@ -1,8 +1,101 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import { resolveDocumentScope } from "@/lib/chat/document-scope"
+import { isChatModel } from "@/lib/chat/models"
+import { MAX_THREAD_TITLE_LENGTH } from "@/lib/chat/thread-metadata"
+import type { Database } from "@/types/database"
 
 export const runtime = "edge"
 
+// PATCH /api/projects/[projectId]/chat_threads/[threadId] - Rename, switch model, pin, archive or rescope a thread
+export async function PATCH(request: NextRequest, { params }: { params: { projectId: string; threadId: string } }) {
+  const { projectId, threadId } = params
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!projectId || !threadId) {
+      return NextResponse.json({ error: "Project ID and Thread ID are required" }, { status: 400 })
+    }
+
+    // Only the fields present in the body are changed
+    const { title, model, pinned, archived, documentIds } = await request.json()
+    const threadUpdate: Database["public"]["Tables"]["chat_threads"]["Update"] = {}
+
+    if (title !== undefined) {
+      if (typeof title !== "string" || title.trim() === "") {
+        return NextResponse.json({ error: "Title must be a non-empty string" }, { status: 400 })
+      }
+      if (title.trim().length > MAX_THREAD_TITLE_LENGTH) {
+        return NextResponse.json(
+          { error: `Title must be at most ${MAX_THREAD_TITLE_LENGTH} characters` },
+          { status: 400 },
+        )
+      }
+      threadUpdate.title = title.trim()
+    }
+    if (model !== undefined) {
+      if (!isChatModel(model)) {
+        return NextResponse.json({ error: "Unknown model" }, { status: 400 })
+      }
+      threadUpdate.model = model
+    }
+    if (pinned !== undefined) {
+      if (typeof pinned !== "boolean") {
+        return NextResponse.json({ error: "pinned must be a boolean" }, { status: 400 })
+      }
+      threadUpdate.pinned = pinned
+    }
+    if (archived !== undefined) {
+      if (typeof archived !== "boolean") {
+        return NextResponse.json({ error: "archived must be a boolean" }, { status: 400 })
+      }
+      threadUpdate.archived = archived
+    }
+    if (documentIds !== undefined) {
+      const scope = await resolveDocumentScope(supabase, user.id, projectId, documentIds)
+      if (scope.error !== undefined) {
+        return NextResponse.json({ error: scope.error }, { status: 400 })
+      }
+      threadUpdate.document_scope = scope.documentIds
+    }
+    if (Object.keys(threadUpdate).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 })
+    }
+
+    const { data: updatedThread, error: updateError } = await supabase
+      .from("chat_threads")
+      .update(threadUpdate)
+      .eq("id", threadId)
+      .eq("project_id", projectId)
+      .eq("user_id", user.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error("Error updating chat thread:", updateError)
+      if (updateError.code === "PGRST116") {
+        return NextResponse.json({ error: "Chat thread not found or access denied" }, { status: 404 })
+      }
+      return NextResponse.json({ error: "Failed to update chat thread" }, { status: 500 })
+    }
+
+    return NextResponse.json(updatedThread)
+  } catch (error) {
+    console.error("API Error updating chat thread:", error)
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
 // DELETE /api/projects/[projectId]/chat_threads/[threadId] - Delete a chat thread
 export async function DELETE(request: NextRequest, { params }: { params: { projectId: string; threadId: string } }) {
   const { projectId, threadId } = params
@@ -0,0 +1,113 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { checkChatThreadQuota, quotaErrorResponse } from "@/lib/usage/quotas"
+import { DEFAULT_CHAT_MODEL, isChatModel } from "@/lib/chat/models"
+import { DEFAULT_THREAD_TITLE, MAX_THREAD_TITLE_LENGTH } from "@/lib/chat/thread-metadata"
+import { buildImportedMessageRows, parseThreadImport } from "@/lib/chat/transcript"
+import type { ChatThread } from "@/types/database"
+
+export const runtime = "edge"
+
+// POST /api/projects/[projectId]/chat_threads/import - Create threads from an uploaded export
+// Accepts our JSON export, Claude.ai conversation exports and Messages API transcripts
+export async function POST(request: NextRequest, { params }: { params: { projectId: string } }) {
+  const projectId = params.projectId
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!projectId) {
+      return NextResponse.json({ error: "Project ID is required" }, { status: 400 })
+    }
+
+    const { data: projectData, error: projectError } = await supabase
+      .from("projects")
+      .select("id")
+      .eq("id", projectId)
+      .eq("user_id", user.id)
+      .single()
+
+    if (projectError || !projectData) {
+      return NextResponse.json({ error: "Project not found or access denied" }, { status: 404 })
+    }
+
+    const parsed = parseThreadImport(await request.json())
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const { data: userSettings } = await supabase
+      .from("user_settings")
+      .select("preferred_model")
+      .eq("user_id", user.id)
+      .single()
+    const fallbackModel = userSettings?.preferred_model || DEFAULT_CHAT_MODEL
+
+    const created: ChatThread[] = []
+    for (const imported of parsed.threads) {
+      // Checked per thread so a large import stops at the plan limit with what fit already saved
+      const quotaExceeded = await checkChatThreadQuota(supabase, user.id, projectId)
+      if (quotaExceeded) {
+        if (created.length === 0) {
+          const { body, status } = quotaErrorResponse(quotaExceeded)
+          return NextResponse.json(body, { status })
+        }
+        break
+      }
+
+      const { data: thread, error: threadError } = await supabase
+        .from("chat_threads")
+        .insert({
+          user_id: user.id,
+          project_id: projectId,
+          title: imported.title?.trim().slice(0, MAX_THREAD_TITLE_LENGTH) || DEFAULT_THREAD_TITLE,
+          model: isChatModel(imported.model) ? imported.model : fallbackModel,
+          ...(imported.createdAt && { created_at: imported.createdAt }),
+        })
+        .select()
+        .single()
+
+      if (threadError || !thread) {
+        console.error("Error creating imported chat thread:", threadError)
+        return NextResponse.json({ error: "Failed to create chat thread" }, { status: 500 })
+      }
+
+      const { rows, activeLeafId } = buildImportedMessageRows(imported, thread.id)
+      const { error: messagesError } = await supabase.from("messages").insert(rows)
+      if (messagesError) {
+        console.error("Error importing messages:", messagesError)
+        await supabase.from("chat_threads").delete().eq("id", thread.id)
+        return NextResponse.json({ error: "Failed to import messages" }, { status: 500 })
+      }
+
+      const { data: updatedThread, error: updateError } = await supabase
+        .from("chat_threads")
+        .update({ active_leaf_id: activeLeafId })
+        .eq("id", thread.id)
+        .select()
+        .single()
+
+      if (updateError) {
+        console.error("Error setting imported thread branch:", updateError)
+      }
+      created.push(updatedThread || thread)
+    }
+
+    return NextResponse.json(
+      { threads: created, skipped: parsed.threads.length - created.length },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error("API Error importing chat threads:", error)
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
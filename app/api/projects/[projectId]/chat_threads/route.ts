@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import { checkChatThreadQuota, quotaErrorResponse } from "@/lib/usage/quotas"
+import { DEFAULT_THREAD_TITLE } from "@/lib/chat/thread-metadata"
 
 export const runtime = "edge"
 
@@ -37,6 +39,7 @@ export async function GET(request: NextRequest, { params }: { params: { projectI
       .select("*")
       .eq("project_id", projectId)
       .eq("user_id", user.id)
+      .order("pinned", { ascending: false })
       .order("updated_at", { ascending: false })
 
     if (error) {
@@ -82,6 +85,12 @@ export async function POST(request: NextRequest, { params }: { params: { project
       )
     }
 
+    const quotaExceeded = await checkChatThreadQuota(supabase, user.id, projectId)
+    if (quotaExceeded) {
+      const { body, status } = quotaErrorResponse(quotaExceeded)
+      return NextResponse.json(body, { status })
+    }
+
     const { title, model } = (await request.json()) as { title?: string; model?: string }
 
     // Fetch user's preferred model if not provided
@@ -100,7 +109,7 @@ export async function POST(request: NextRequest, { params }: { params: { project
       .insert({
         user_id: user.id,
         project_id: projectId,
-        title: title || "New Chat", // Default title
+        title: title || DEFAULT_THREAD_TITLE, // Renamed automatically after the first exchange
         model: threadModel,
       })
       .select()
@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { enqueueDocumentJob } from "@/lib/jobs/document-jobs"
+
+export const runtime = "edge"
+
+// POST /api/projects/[projectId]/documents/[documentId]/reprocess - Queue a document for processing again.
+// Chunks that are already embedded with unchanged content are kept, so this only redoes the missing work.
+export async function POST(request: NextRequest, { params }: { params: { projectId: string; documentId: string } }) {
+  const { projectId, documentId } = params
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!projectId || !documentId) {
+      return NextResponse.json({ error: "Project ID and Document ID are required" }, { status: 400 })
+    }
+
+    const { data: document, error: fetchError } = await supabase
+      .from("documents")
+      .select("id, user_id, project_id, status")
+      .eq("id", documentId)
+      .eq("project_id", projectId)
+      .eq("user_id", user.id)
+      .single()
+
+    if (fetchError || !document) {
+      return NextResponse.json({ error: "Document not found or access denied" }, { status: 404 })
+    }
+    if (document.status === "pending" || document.status === "processing") {
+      return NextResponse.json({ error: "Document is already queued for processing" }, { status: 409 })
+    }
+
+    const { data: updatedDocument, error: updateError } = await supabase
+      .from("documents")
+      .update({ status: "pending", processing_stage: null, processing_error: null })
+      .eq("id", documentId)
+      .select()
+      .single()
+
+    if (updateError || !updatedDocument) {
+      console.error("Error resetting document status:", updateError)
+      return NextResponse.json({ error: "Failed to queue document" }, { status: 500 })
+    }
+
+    // If enqueueing fails, stale-document recovery queues it later
+    try {
+      await enqueueDocumentJob(document)
+    } catch (enqueueError) {
+      console.error("Error enqueueing document reprocessing:", enqueueError)
+    }
+
+    return NextResponse.json(updatedDocument, { status: 202 })
+  } catch (error) {
+    console.error("API Error reprocessing document:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
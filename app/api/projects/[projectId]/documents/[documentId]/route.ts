@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { del } from "@vercel/blob"
+import { parseDocumentTags } from "@/lib/documents/tags"
 
 export const runtime = "edge"
 
@@ -58,3 +59,56 @@ export async function DELETE(request: NextRequest, { params }: { params: { proje
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
 }
+
+// PATCH /api/projects/[projectId]/documents/[documentId] - Update a document's tags
+export async function PATCH(request: NextRequest, { params }: { params: { projectId: string; documentId: string } }) {
+  const { projectId, documentId } = params
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!projectId || !documentId) {
+      return NextResponse.json({ error: "Project ID and Document ID are required" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 })
+    }
+    const parsed = parseDocumentTags(body.tags)
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const { data: updatedDocument, error: updateError } = await supabase
+      .from("documents")
+      .update({ tags: parsed.tags, updated_at: new Date().toISOString() })
+      .eq("id", documentId)
+      .eq("project_id", projectId)
+      .eq("user_id", user.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error("Error updating document tags:", updateError)
+      if (updateError.code === "PGRST116") {
+        return NextResponse.json({ error: "Document not found or access denied" }, { status: 404 })
+      }
+      return NextResponse.json({ error: "Failed to update document" }, { status: 500 })
+    }
+
+    return NextResponse.json(updatedDocument)
+  } catch (error) {
+    console.error("API Error updating document:", error)
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -2,6 +2,9 @@ import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { put, del } from "@vercel/blob" // For Vercel Blob storage
 import { customAlphabet } from "nanoid"
+import { checkDocumentQuota, quotaErrorResponse } from "@/lib/usage/quotas"
+import { enqueueDocumentJob } from "@/lib/jobs/document-jobs"
+import { detectFileType, SNIFF_BYTES, SUPPORTED_FORMATS_LABEL } from "@/lib/documents/file-types"
 
 export const runtime = "edge"
 
@@ -89,13 +92,14 @@ export async function POST(request: NextRequest, { params }: { params: { project
       return NextResponse.json({ error: "File is required" }, { status: 400 })
     }
 
-    const fileExtension = file.name.split(".").pop()?.toLowerCase()
-    const allowedExtensions = ["pdf", "docx", "txt", "csv"]
-    if (!fileExtension || !allowedExtensions.includes(fileExtension)) {
-      return NextResponse.json({ error: "Invalid file type. Allowed: PDF, DOCX, TXT, CSV" }, { status: 400 })
+    // The browser's file.type is only a hint; the stored type comes from the file's own bytes
+    const fileHead = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer())
+    const fileType = detectFileType(fileHead, file.name, file.type)
+    if (!fileType) {
+      return NextResponse.json({ error: `Invalid file type. Allowed: ${SUPPORTED_FORMATS_LABEL}` }, { status: 400 })
     }
 
-    // Max file size (e.g., 100MB)
+    // Upload cap per file; the plan's per-project storage limit is checked below
     const MAX_FILE_SIZE = 100 * 1024 * 1024
     if (file.size > MAX_FILE_SIZE) {
       return NextResponse.json(
@@ -104,12 +108,18 @@ export async function POST(request: NextRequest, { params }: { params: { project
       )
     }
 
+    const quotaExceeded = await checkDocumentQuota(supabase, user.id, projectId, file.size)
+    if (quotaExceeded) {
+      const { body, status } = quotaErrorResponse(quotaExceeded)
+      return NextResponse.json(body, { status })
+    }
+
     const uniqueFileName = `${nanoid()}-${file.name}`
 
     // Upload to Vercel Blob
     const blob = await put(uniqueFileName, file, {
       access: "public", // Or 'private' if you handle signed URLs
-      contentType: file.type,
+      contentType: fileType.mimeType,
       addRandomSuffix: false, // We created a unique name already
     })
 
@@ -122,7 +132,7 @@ export async function POST(request: NextRequest, { params }: { params: { project
         name: file.name, // Original file name
         file_url: blob.url,
         file_size: file.size,
-        mime_type: file.type,
+        mime_type: fileType.mimeType,
         status: "pending", // Initial status, to be processed
       })
       .select()
@@ -135,6 +145,13 @@ export async function POST(request: NextRequest, { params }: { params: { project
       return NextResponse.json({ error: "Failed to save document metadata" }, { status: 500 })
     }
 
+    // Processing runs in the background worker; if enqueueing fails, stale-document recovery queues it later
+    try {
+      await enqueueDocumentJob(newDocument)
+    } catch (enqueueError) {
+      console.error("Error enqueueing document processing:", enqueueError)
+    }
+
     return NextResponse.json(newDocument, { status: 201 })
   } catch (error) {
     console.error("API Error uploading document:", error)
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { buildProjectArchive } from "@/lib/projects/archive"
+
+export const runtime = "nodejs"
+export const maxDuration = 300
+
+// GET /api/projects/[projectId]/export - Download the project as a zip archive
+// Holds the original files, chunks with embeddings, and every chat thread; see lib/projects/archive.ts
+export async function GET(request: NextRequest, { params }: { params: { projectId: string } }) {
+  const projectId = params.projectId
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (!projectId) {
+      return NextResponse.json({ error: "Project ID is required" }, { status: 400 })
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from("projects")
+      .select("*")
+      .eq("id", projectId)
+      .eq("user_id", user.id)
+      .single()
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: "Project not found or access denied" }, { status: 404 })
+    }
+
+    const archive = await buildProjectArchive(supabase, project)
+    const slug = project.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60)
+    return new NextResponse(archive, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${slug || "project"}.claudedesk.zip"`,
+      },
+    })
+  } catch (error) {
+    console.error("API Error exporting project:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,5 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import { parseRetrievalSettings } from "@/lib/chat/retrieval-settings"
+import { getEmbeddingProviderUnavailableReason, isEmbeddingProviderId } from "@/lib/embeddings/provider"
+import { enqueueDocumentJob } from "@/lib/jobs/document-jobs"
+import type { Database } from "@/types/database"
 
 export const runtime = "edge"
 
@@ -66,19 +70,66 @@ export async function PUT(request: NextRequest, { params }: { params: { projectI
       return NextResponse.json({ error: "Project ID is required" }, { status: 400 })
     }
 
-    const { name, description } = await request.json()
+    const { name, description, retrievalSettings, embeddingProvider, contextualRetrieval } = await request.json()
 
     if (!name || typeof name !== "string" || name.trim() === "") {
       return NextResponse.json({ error: "Project name is required" }, { status: 400 })
     }
 
+    const projectUpdate: Database["public"]["Tables"]["projects"]["Update"] = {
+      name: name.trim(),
+      description: description?.trim() || null,
+      updated_at: new Date().toISOString(), // Manually set updated_at as trigger might not fire for all clients
+    }
+
+    // Only touch retrieval settings when the client sends them; null resets to defaults
+    if (retrievalSettings === null) {
+      projectUpdate.retrieval_settings = null
+    } else if (retrievalSettings !== undefined) {
+      const parsed = parseRetrievalSettings(retrievalSettings)
+      if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      projectUpdate.retrieval_settings = parsed.settings
+    }
+
+    if (embeddingProvider !== undefined) {
+      if (!isEmbeddingProviderId(embeddingProvider)) {
+        return NextResponse.json({ error: "Unknown embedding provider" }, { status: 400 })
+      }
+      const unavailableReason = getEmbeddingProviderUnavailableReason(embeddingProvider)
+      if (unavailableReason) {
+        return NextResponse.json({ error: unavailableReason }, { status: 400 })
+      }
+      projectUpdate.embedding_provider = embeddingProvider
+    }
+    if (contextualRetrieval !== undefined) {
+      if (typeof contextualRetrieval !== "boolean") {
+        return NextResponse.json({ error: "contextualRetrieval must be a boolean" }, { status: 400 })
+      }
+      projectUpdate.contextual_retrieval = contextualRetrieval
+    }
+
+    // Both settings change what gets embedded, so changing either re-embeds the project's documents
+    let needsReembedding = false
+    if (embeddingProvider !== undefined || contextualRetrieval !== undefined) {
+      const { data: currentProject, error: currentError } = await supabase
+        .from("projects")
+        .select("embedding_provider, contextual_retrieval")
+        .eq("id", projectId)
+        .eq("user_id", user.id)
+        .single()
+      if (currentError || !currentProject) {
+        return NextResponse.json({ error: "Project not found or access denied for update" }, { status: 404 })
+      }
+      needsReembedding =
+        (embeddingProvider !== undefined && currentProject.embedding_provider !== embeddingProvider) ||
+        (contextualRetrieval !== undefined && currentProject.contextual_retrieval !== contextualRetrieval)
+    }
+
     const { data: updatedProject, error: updateError } = await supabase
       .from("projects")
-      .update({
-        name: name.trim(),
-        description: description?.trim() || null,
-        updated_at: new Date().toISOString(), // Manually set updated_at as trigger might not fire for all clients
-      })
+      .update(projectUpdate)
       .eq("id", projectId)
       .eq("user_id", user.id)
       .select()
@@ -96,6 +147,10 @@ export async function PUT(request: NextRequest, { params }: { params: { projectI
       return NextResponse.json({ error: "Project not found or access denied for update" }, { status: 404 })
     }
 
+    if (needsReembedding) {
+      await requeueProjectDocuments(supabase, projectId, user.id)
+    }
+
     return NextResponse.json(updatedProject)
   } catch (error) {
     console.error("API Error updating project:", error)
@@ -106,6 +161,33 @@ export async function PUT(request: NextRequest, { params }: { params: { projectI
   }
 }
 
+// Existing chunks were embedded with the previous model or context setting and no longer match, so
+// every settled document is queued again. Documents already pending or processing pick up the new
+// settings when their job runs.
+async function requeueProjectDocuments(supabase: any, projectId: string, userId: string) {
+  const { data: documents, error } = await supabase
+    .from("documents")
+    .update({ status: "pending", processing_stage: null, processing_error: null })
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .in("status", ["completed", "failed"])
+    .select("id, user_id, project_id")
+
+  if (error) {
+    console.error("Error resetting documents for re-embedding:", error)
+    return
+  }
+
+  // If enqueueing fails, stale-document recovery queues the document later
+  for (const document of documents ?? []) {
+    try {
+      await enqueueDocumentJob(document)
+    } catch (enqueueError) {
+      console.error(`Error enqueueing re-embedding for document ${document.id}:`, enqueueError)
+    }
+  }
+}
+
 // DELETE /api/projects/[projectId] - Delete a specific project
 export async function DELETE(request: NextRequest, { params }: { params: { projectId: string } }) {
   const projectId = params.projectId
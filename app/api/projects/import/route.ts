@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { checkProjectImportQuota, checkProjectQuota, quotaErrorResponse } from "@/lib/usage/quotas"
+import {
+  getEmbeddingIncompatibility,
+  importProjectArchive,
+  openProjectArchive,
+  ProjectArchiveError,
+} from "@/lib/projects/archive"
+
+export const runtime = "nodejs"
+export const maxDuration = 300
+
+// POST /api/projects/import - Recreate a project from an archive made by GET /api/projects/[projectId]/export
+// Every id is new, so the same archive can be imported into any account or instance, even twice
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    if (!file) {
+      return NextResponse.json({ error: "File is required" }, { status: 400 })
+    }
+
+    const archive = await openProjectArchive(await file.arrayBuffer())
+    const incompatibility = getEmbeddingIncompatibility(archive.manifest)
+    if (incompatibility) {
+      return NextResponse.json({ error: incompatibility }, { status: 400 })
+    }
+
+    const documentBytes = archive.fileSizes.reduce<number>((total, size) => total + (size || 0), 0)
+    const quotaExceeded =
+      (await checkProjectQuota(supabase, user.id)) ||
+      (await checkProjectImportQuota(supabase, user.id, documentBytes, archive.manifest.threads.length))
+    if (quotaExceeded) {
+      const { body, status } = quotaErrorResponse(quotaExceeded)
+      return NextResponse.json(body, { status })
+    }
+
+    const project = await importProjectArchive({ supabase, userId: user.id, archive })
+    return NextResponse.json(project, { status: 201 })
+  } catch (error) {
+    if (error instanceof ProjectArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("API Error importing project:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
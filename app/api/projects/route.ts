@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import { checkProjectQuota, quotaErrorResponse } from "@/lib/usage/quotas"
 
 export const runtime = "edge"
 
@@ -53,6 +54,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Project name is required" }, { status: 400 })
     }
 
+    const quotaExceeded = await checkProjectQuota(supabase, user.id)
+    if (quotaExceeded) {
+      const { body, status } = quotaErrorResponse(quotaExceeded)
+      return NextResponse.json(body, { status })
+    }
+
     const { data: newProject, error } = await supabase
       .from("projects")
       .insert({
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, MIN_SEARCH_QUERY_LENGTH } from "@/lib/chat/search"
+
+export const runtime = "edge"
+
+// GET /api/search?q=...&limit=... - Search thread titles and message content across the user's projects
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const query = request.nextUrl.searchParams.get("q")?.trim() || ""
+    if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search query must be at least ${MIN_SEARCH_QUERY_LENGTH} characters` },
+        { status: 400 },
+      )
+    }
+    const limitParam = Number(request.nextUrl.searchParams.get("limit") || DEFAULT_SEARCH_LIMIT)
+    const limit = Number.isInteger(limitParam)
+      ? Math.min(Math.max(limitParam, 1), MAX_SEARCH_LIMIT)
+      : DEFAULT_SEARCH_LIMIT
+
+    const { data: results, error } = await supabase.rpc("search_chat_history", {
+      search_query: query,
+      filter_user_id: user.id,
+      match_count: limit,
+    })
+
+    if (error) {
+      console.error("Error searching chat history:", error)
+      return NextResponse.json({ error: "Failed to search chat history" }, { status: 500 })
+    }
+    return NextResponse.json(results || [])
+  } catch (error) {
+    console.error("API Error searching chat history:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
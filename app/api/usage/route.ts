@@ -0,0 +1,118 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { estimateCost, type TokenCounts } from "@/lib/usage/pricing"
+
+export const runtime = "edge"
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+interface UsageTotals extends TokenCounts {
+  estimatedCost: number
+}
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, estimatedCost: 0 }
+}
+
+function addUsage(totals: UsageTotals, tokens: TokenCounts, cost: number) {
+  totals.inputTokens += tokens.inputTokens
+  totals.outputTokens += tokens.outputTokens
+  totals.cacheCreationInputTokens += tokens.cacheCreationInputTokens
+  totals.cacheReadInputTokens += tokens.cacheReadInputTokens
+  totals.estimatedCost += cost
+}
+
+// GET /api/usage?days=30&projectId=... — the signed-in user's token usage per day and per project
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const daysParam = searchParams.get("days")
+    const days = daysParam === null ? DEFAULT_DAYS : Number(daysParam)
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json({ error: `days must be a whole number between 1 and ${MAX_DAYS}` }, { status: 400 })
+    }
+    const projectId = searchParams.get("projectId")
+
+    const since = new Date()
+    since.setUTCHours(0, 0, 0, 0)
+    since.setUTCDate(since.getUTCDate() - (days - 1))
+
+    // Summed per day, project, kind and model in SQL; cost is linear in tokens, so pricing the sums is exact
+    const { data: groups, error: usageError } = await supabase.rpc("summarize_usage", {
+      filter_user_id: user.id,
+      since: since.toISOString(),
+      filter_project_id: projectId,
+    })
+    if (usageError) {
+      console.error("Error summarizing usage events:", usageError)
+      return NextResponse.json({ error: "Failed to load usage" }, { status: 500 })
+    }
+
+    const totals = emptyTotals()
+    const byDay = new Map<string, UsageTotals>()
+    const byProject = new Map<string | null, UsageTotals>()
+    const byKind = new Map<string, UsageTotals>()
+
+    for (const group of groups || []) {
+      const tokens: TokenCounts = {
+        inputTokens: Number(group.input_tokens),
+        outputTokens: Number(group.output_tokens),
+        cacheCreationInputTokens: Number(group.cache_creation_input_tokens),
+        cacheReadInputTokens: Number(group.cache_read_input_tokens),
+      }
+      const cost = estimateCost(group.model, tokens)
+      const day = group.day
+
+      addUsage(totals, tokens, cost)
+      if (!byDay.has(day)) byDay.set(day, emptyTotals())
+      addUsage(byDay.get(day)!, tokens, cost)
+      if (!byProject.has(group.project_id)) byProject.set(group.project_id, emptyTotals())
+      addUsage(byProject.get(group.project_id)!, tokens, cost)
+      if (!byKind.has(group.kind)) byKind.set(group.kind, emptyTotals())
+      addUsage(byKind.get(group.kind)!, tokens, cost)
+    }
+
+    const projectIds = [...byProject.keys()].filter((id): id is string => id !== null)
+    const projectNames = new Map<string, string>()
+    if (projectIds.length > 0) {
+      const { data: projects, error: projectsError } = await supabase
+        .from("projects")
+        .select("id, name")
+        .in("id", projectIds)
+      if (projectsError) {
+        console.error("Error fetching project names for usage:", projectsError)
+      }
+      for (const project of projects || []) {
+        projectNames.set(project.id, project.name)
+      }
+    }
+
+    return NextResponse.json({
+      since: since.toISOString(),
+      days,
+      totals,
+      daily: [...byDay.entries()].map(([date, dayTotals]) => ({ date, ...dayTotals })),
+      projects: [...byProject.entries()].map(([id, projectTotals]) => ({
+        projectId: id,
+        // Usage from deleted projects keeps its row with project_id set to null
+        projectName: id ? projectNames.get(id) || null : null,
+        ...projectTotals,
+      })),
+      kinds: [...byKind.entries()].map(([kind, kindTotals]) => ({ kind, ...kindTotals })),
+    })
+  } catch (error) {
+    console.error("API Error fetching usage:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
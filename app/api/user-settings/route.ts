@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { encryptApiKey } from "@/lib/encryption" // Server-side encryption
+import { isPlanTier } from "@/lib/usage/quotas"
 
 export const runtime = "edge"
 
@@ -18,7 +19,7 @@ export async function GET(request: NextRequest) {
 
     const { data, error } = await supabase
       .from("user_settings")
-      .select("anthropic_api_key, preferred_model") // Select only what's needed
+      .select("anthropic_api_key, preferred_model, plan") // Select only what's needed
       .eq("user_id", user.id)
       .single()
 
@@ -31,6 +32,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       isApiKeySet: !!data?.anthropic_api_key, // Send boolean instead of encrypted key
       preferredModel: data?.preferred_model || "claude-3-5-sonnet-20241022",
+      plan: isPlanTier(data?.plan) ? data?.plan : "free",
     })
   } catch (error) {
     console.error("API Error fetching user settings:", error)
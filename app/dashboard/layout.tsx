@@ -1,12 +1,14 @@
 "use client"
 
 import type React from "react"
-import { LayoutGrid, Settings, LogOut } from "lucide-react" // Added LogOut
+import { useEffect, useState } from "react"
+import { LayoutGrid, Settings, LogOut, Search } from "lucide-react" // Added LogOut
 import { usePathname, useRouter } from "next/navigation" // Added useRouter
 import Link from "next/link"
 import { Button } from "@/components/ui/button" // For logout button
 import { createClient } from "@/lib/supabase/client" // For client-side logout action
 import { toast } from "sonner"
+import SearchCommand from "@/components/dashboard/search-command"
 
 export default function DashboardLayout({
   children,
@@ -16,6 +18,19 @@ export default function DashboardLayout({
   const pathname = usePathname()
   const router = useRouter()
   const supabase = createClient()
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+
+  // Ctrl/Cmd+K opens chat search from anywhere in the dashboard
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setIsSearchOpen((open) => !open)
+      }
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [])
 
   const handleLogout = async () => {
     toast.loading("Logging out...")
@@ -41,6 +56,15 @@ export default function DashboardLayout({
             </Link>
           </div>
           <nav className="grid items-start gap-2">
+            <button
+              type="button"
+              onClick={() => setIsSearchOpen(true)}
+              className="flex items-center gap-3 rounded-lg px-3 py-2 text-muted-foreground transition-all hover:text-primary hover:bg-muted"
+            >
+              <Search className="h-4 w-4" />
+              Search
+              <kbd className="ml-auto rounded border px-1.5 text-xs">⌘K</kbd>
+            </button>
             <Link
               href="/dashboard/projects"
               className={`flex items-center gap-3 rounded-lg px-3 py-2 text-muted-foreground transition-all hover:text-primary hover:bg-muted ${
@@ -75,6 +99,7 @@ export default function DashboardLayout({
         </div>
       </div>
       <main className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">{children}</main>
+      <SearchCommand open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </div>
   )
 }
@@ -10,6 +10,9 @@ interface ChatPageProps {
     projectId: string
     threadId: string
   }
+  searchParams: {
+    message?: string // Message to scroll to, e.g. when opened from search
+  }
 }
 
 async function getChatData(projectId: string, threadId: string, userId: string) {
@@ -42,7 +45,7 @@ async function getChatData(projectId: string, threadId: string, userId: string)
   return { project: project as Project, chatThread: chatThread as ChatThread }
 }
 
-export default async function ProjectChatPage({ params }: ChatPageProps) {
+export default async function ProjectChatPage({ params, searchParams }: ChatPageProps) {
   const supabase = await createClient()
   const {
     data: { user },
@@ -97,6 +100,8 @@ export default async function ProjectChatPage({ params }: ChatPageProps) {
           chatThreadId={chatThread.id}
           projectId={project.id} // Pass projectId for RAG context
           currentModel={chatThread.model}
+          initialDocumentScope={chatThread.document_scope}
+          focusMessageId={searchParams.message}
         />
       </div>
     </div>
@@ -6,6 +6,7 @@ import { FileText, MessageSquare, Info } from "lucide-react"
 import ProjectDocumentsClient from "@/components/projects/project-documents-client"
 import ProjectChatThreadsClient from "@/components/projects/project-chat-threads-client"
 import ProjectDetailsClient from "@/components/projects/project-details-client"
+import { PLAN_LIMITS, getUserPlan } from "@/lib/usage/quotas"
 
 export const runtime = "edge"
 
@@ -43,6 +44,7 @@ async function getProjectData(projectId: string, userId: string) {
     .from("chat_threads")
     .select("*")
     .eq("project_id", projectId)
+    .order("pinned", { ascending: false })
     .order("updated_at", { ascending: false })
 
   if (chatThreadsError) {
@@ -68,6 +70,7 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
   }
 
   const { project, documents, chatThreads } = await getProjectData(params.projectId, user.id)
+  const limits = PLAN_LIMITS[await getUserPlan(supabase, user.id)]
 
   if (!project) {
     return (
@@ -101,10 +104,18 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
           </TabsTrigger>
         </TabsList>
         <TabsContent value="documents">
-          <ProjectDocumentsClient initialDocuments={documents} projectId={project.id} />
+          <ProjectDocumentsClient
+            initialDocuments={documents}
+            projectId={project.id}
+            maxDocumentBytes={limits.maxDocumentBytesPerProject}
+          />
         </TabsContent>
         <TabsContent value="chat_threads">
-          <ProjectChatThreadsClient initialChatThreads={chatThreads} projectId={project.id} />
+          <ProjectChatThreadsClient
+            initialChatThreads={chatThreads}
+            projectId={project.id}
+            maxChatThreads={limits.maxChatThreadsPerProject}
+          />
         </TabsContent>
         <TabsContent value="details">
           <ProjectDetailsClient project={project} />
@@ -2,6 +2,7 @@ import { redirect } from "next/navigation"
 import { createClient } from "@/lib/supabase/server"
 import ProjectListClient from "@/components/projects/project-list-client"
 import type { Project } from "@/types/database"
+import { getUserPlan } from "@/lib/usage/quotas"
 
 export const runtime = "edge"
 
@@ -34,9 +35,11 @@ export default async function ProjectsPage() {
     )
   }
 
+  const plan = await getUserPlan(supabase, user.id)
+
   return (
     <div className="container mx-auto p-4 sm:p-6 lg:p-8">
-      <ProjectListClient initialProjects={(projects as Project[]) || []} />
+      <ProjectListClient initialProjects={(projects as Project[]) || []} plan={plan} />
     </div>
   )
 }
@@ -8,6 +8,8 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { toast } from "sonner"
 import { Loader2 } from "lucide-react"
+import Link from "next/link"
+import { PLAN_LIMITS, PLAN_NAMES, formatBytes, type PlanTier } from "@/lib/usage/quotas"
 
 export default function SettingsPage() {
   const [apiKeyInput, setApiKeyInput] = useState("")
@@ -15,6 +17,7 @@ export default function SettingsPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [isApiKeySet, setIsApiKeySet] = useState(false) // To know if a key is already configured
+  const [plan, setPlan] = useState<PlanTier>("free")
   const supabase = createClient()
 
   useEffect(() => {
@@ -28,6 +31,7 @@ export default function SettingsPage() {
         const data = await response.json()
         setIsApiKeySet(data.isApiKeySet)
         setPreferredModel(data.preferredModel)
+        setPlan(data.plan)
       } catch (error) {
         toast.error((error as Error).message)
         console.error(error)
@@ -88,6 +92,8 @@ export default function SettingsPage() {
     }
   }
 
+  const limits = PLAN_LIMITS[plan]
+
   if (isLoading) {
     return (
       <div className="container mx-auto p-8 flex justify-center items-center">
@@ -154,6 +160,28 @@ export default function SettingsPage() {
           </form>
         </CardContent>
       </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Plan</CardTitle>
+          <CardDescription>
+            You are on the {PLAN_NAMES[plan]} plan.{" "}
+            <Link href="/#pricing" className="underline">
+              Compare plans
+            </Link>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="text-sm space-y-1">
+            <li>Projects: {limits.maxProjects ?? "Unlimited"}</li>
+            <li>
+              Documents per project:{" "}
+              {limits.maxDocumentBytesPerProject === null ? "Unlimited" : formatBytes(limits.maxDocumentBytesPerProject)}
+            </li>
+            <li>Chat threads per project: {limits.maxChatThreadsPerProject ?? "Unlimited"}</li>
+          </ul>
+        </CardContent>
+      </Card>
     </div>
   )
 }
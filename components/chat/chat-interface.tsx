@@ -1,29 +1,43 @@
 "use client"
 
 import { useState, useEffect, useRef, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
 import type { Message as MessageType } from "@/types/database"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { Send, User, Bot, Loader2, AlertCircle, RefreshCw } from "lucide-react"
+import { Send, User, Bot, Loader2, AlertCircle, RefreshCw, Pencil, ChevronLeft, ChevronRight } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import Markdown from "react-markdown"
 import remarkGfm from "remark-gfm"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
+import { readChatEvents, type ChatUsage } from "@/lib/chat/stream-events"
+import type { WithSiblings } from "@/lib/chat/message-tree"
+import MessageSources from "./message-sources"
+import DocumentScopePicker, { type ScopeTarget } from "./document-scope-picker"
 
 interface ChatInterfaceProps {
   initialMessages?: MessageType[]
   chatThreadId: string
   projectId: string
   currentModel: string
+  initialDocumentScope?: string[] | null // The thread's saved document scope
+  focusMessageId?: string // Scrolled to and highlighted once loaded, switching to its branch if needed
 }
 
-interface DisplayMessage extends MessageType {
+// Messages on the thread's active branch, as returned by the history and active_branch endpoints
+type ThreadMessage = WithSiblings<MessageType>
+
+interface DisplayMessage extends ThreadMessage {
   id: string
+  isLocal?: boolean // Optimistic message not yet confirmed by the server
   isStreaming?: boolean
   error?: boolean
+  errorMessage?: string
+  usage?: ChatUsage
 }
 
 export default function ChatInterface({
@@ -31,22 +45,48 @@ export default function ChatInterface({
   chatThreadId,
   projectId,
   currentModel,
+  initialDocumentScope = null,
+  focusMessageId,
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<DisplayMessage[]>(
-    initialMessages.map((m) => ({ ...m, id: m.id.toString() })),
+    initialMessages.map((m) => ({ ...m, id: m.id.toString(), siblingIds: [m.id.toString()] })),
   )
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [isFetchingHistory, setIsFetchingHistory] = useState(true)
   const [connectionError, setConnectionError] = useState<string | null>(null)
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState("")
+  const router = useRouter()
+  const [threadScope, setThreadScope] = useState<string[] | null>(initialDocumentScope)
+  // Scope for the next message only; undefined follows the thread's
+  const [messageScope, setMessageScope] = useState<string[] | null | undefined>(undefined)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const pendingFocusRef = useRef<string | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }
 
-  useEffect(scrollToBottom, [messages])
+  // New messages scroll to the bottom, except right after loading a thread opened at a specific message
+  useEffect(() => {
+    const focusId = pendingFocusRef.current
+    if (focusId && messages.some((m) => m.id === focusId)) {
+      pendingFocusRef.current = null
+      document.getElementById(`message-${focusId}`)?.scrollIntoView({ block: "center" })
+      setHighlightedMessageId(focusId)
+      return
+    }
+    scrollToBottom()
+  }, [messages])
+
+  useEffect(() => {
+    if (!highlightedMessageId) return
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 3000)
+    return () => clearTimeout(timeout)
+  }, [highlightedMessageId])
 
   // Fetch message history on component mount
   useEffect(() => {
@@ -66,7 +106,21 @@ export default function ChatInterface({
           throw new Error(`Failed to fetch messages: ${response.statusText}`)
         }
         
-        const history = (await response.json()) as MessageType[]
+        let history = (await response.json()) as ThreadMessage[]
+        if (focusMessageId && !history.some((m) => m.id === focusMessageId)) {
+          // The message is on another branch; make that branch active so it can be shown
+          const branchResponse = await fetch(`/api/chat_threads/${chatThreadId}/active_branch`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ messageId: focusMessageId }),
+          })
+          if (branchResponse.ok) {
+            history = (await branchResponse.json()) as ThreadMessage[]
+          } else {
+            toast.error("The message from search could not be found in this chat.")
+          }
+        }
+        pendingFocusRef.current = focusMessageId || null
         setMessages(history.map((m) => ({ ...m, id: m.id.toString() })))
       } catch (error) {
         console.error("Error fetching message history:", error)
@@ -78,51 +132,85 @@ export default function ChatInterface({
     }
 
     fetchMessageHistory()
-  }, [chatThreadId])
+  }, [chatThreadId, focusMessageId])
 
   const retryConnection = () => {
     setConnectionError(null)
     window.location.reload()
   }
 
-  const handleSubmit = async (e?: FormEvent<HTMLFormElement>) => {
-    e?.preventDefault()
-    
-    if (!input.trim() || isLoading) return
-
-    const userMessage = input.trim()
-    setInput("")
-    setConnectionError(null)
+  // Reloads the active branch, e.g. after a regenerate/edit created new siblings
+  const refreshActivePath = async () => {
+    try {
+      const response = await fetch(`/api/chat_threads/${chatThreadId}/messages`)
+      if (response.ok) {
+        const history = (await response.json()) as ThreadMessage[]
+        setMessages(history.map((m) => ({ ...m, id: m.id.toString() })))
+      }
+    } catch (refetchError) {
+      console.error("Failed to refetch messages:", refetchError)
+      // Don't show error to user for this background operation
+    }
+  }
 
-    // Create user message
-    const userDisplayMessage: DisplayMessage = {
-      id: Date.now().toString(),
+  const createLocalMessage = (role: "user" | "assistant", content: string, offset = 0): DisplayMessage => {
+    const id = (Date.now() + offset).toString()
+    return {
+      id,
       chat_thread_id: chatThreadId,
-      role: "user",
-      content: userMessage,
+      role,
+      content,
       created_at: new Date().toISOString(),
       tokens_used: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+      sources: null,
+      search_queries: null,
+      parent_message_id: null,
+      sibling_index: 0,
+      siblingIds: [id],
+      isLocal: true,
     }
+  }
 
-    setMessages((prev) => [...prev, userDisplayMessage])
+  // Streams one assistant reply. baseMessages is the branch the reply continues from.
+  const streamReply = async ({
+    requestBody,
+    baseMessages,
+    userDisplayMessage,
+    refreshAfter,
+  }: {
+    requestBody: Record<string, unknown>
+    baseMessages: DisplayMessage[]
+    userDisplayMessage: DisplayMessage | null
+    refreshAfter: boolean
+  }) => {
+    setConnectionError(null)
     setIsLoading(true)
 
     // Create abort controller for this request
-    abortControllerRef.current = new AbortController()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    // Unlocks the input once the reply is complete. The server sends "done" before the
+    // thread title refresh, so this runs while the stream may still carry thread_updated.
+    let replyFinished = false
+    const finishReply = () => {
+      if (replyFinished) return
+      replyFinished = true
+      setIsLoading(false)
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
+    }
 
     // Add placeholder for assistant's message
-    const assistantMessageId = (Date.now() + 1).toString()
-    const assistantPlaceholder: DisplayMessage = {
-      id: assistantMessageId,
-      chat_thread_id: chatThreadId,
-      role: "assistant",
-      content: "",
-      created_at: new Date().toISOString(),
-      tokens_used: 0,
-      isStreaming: true,
-    }
+    const assistantPlaceholder: DisplayMessage = { ...createLocalMessage("assistant", "", 1), isStreaming: true }
+    const assistantMessageId = assistantPlaceholder.id
 
-    setMessages((prev) => [...prev, assistantPlaceholder])
+    setMessages([...baseMessages, ...(userDisplayMessage ? [userDisplayMessage] : []), assistantPlaceholder])
 
     try {
       const response = await fetch("/api/chat", {
@@ -131,13 +219,15 @@ export default function ChatInterface({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          message: userMessage,
+          ...requestBody,
+          ...(messageScope !== undefined ? { documentIds: messageScope } : {}),
           chatThreadId: chatThreadId,
           projectId: projectId,
           model: currentModel,
         }),
-        signal: abortControllerRef.current.signal,
+        signal: abortController.signal,
       })
+      setMessageScope(undefined)
 
       if (!response.ok) {
         let errorMessage = "Unknown error occurred"
@@ -159,60 +249,95 @@ export default function ChatInterface({
         throw new Error("No response body received")
       }
 
-      // Handle streaming response
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
+      const updateAssistantMessage = (update: (msg: DisplayMessage) => DisplayMessage) => {
+        setMessages((prevMessages) =>
+          prevMessages.map((msg) => (msg.id === assistantMessageId ? update(msg) : msg)),
+        )
+      }
+
+      // Handle SSE response
       let assistantResponseContent = ""
+      let streamErrorMessage: string | null = null
+      let persistedAssistantId: string | null = null
+
+      const completeReply = async () => {
+        if (replyFinished) return
+
+        // Mark streaming as complete and adopt the persisted id so later refetches line up
+        updateAssistantMessage((msg) => ({
+          ...msg,
+          id: persistedAssistantId ?? msg.id,
+          siblingIds: persistedAssistantId ? [persistedAssistantId] : msg.siblingIds,
+          isLocal: !persistedAssistantId,
+          isStreaming: false,
+        }))
+
+        if (streamErrorMessage) {
+          toast.error(streamErrorMessage)
+        }
 
-      try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          const chunk = decoder.decode(value, { stream: true })
-          assistantResponseContent += chunk
-
-          // Update the assistant message with accumulated content
-          setMessages((prevMessages) =>
-            prevMessages.map((msg) =>
-              msg.id === assistantMessageId 
-                ? { 
-                    ...msg, 
-                    content: assistantResponseContent,
-                    isStreaming: true
-                  } 
-                : msg
-            )
-          )
+        finishReply()
+        if (refreshAfter) {
+          await refreshActivePath()
         }
-      } finally {
-        reader.releaseLock()
       }
 
-      // Mark streaming as complete
-      setMessages((prevMessages) =>
-        prevMessages.map((msg) =>
-          msg.id === assistantMessageId 
-            ? { ...msg, isStreaming: false }
-            : msg
-        )
-      )
-
-      // Refetch messages to ensure consistency with database
-      if (assistantResponseContent) {
-        try {
-          const historyResponse = await fetch(`/api/chat_threads/${chatThreadId}/messages`)
-          if (historyResponse.ok) {
-            const history = (await historyResponse.json()) as MessageType[]
-            setMessages(history.map((m) => ({ ...m, id: m.id.toString() })))
-          }
-        } catch (refetchError) {
-          console.error("Failed to refetch messages:", refetchError)
-          // Don't show error to user for this background operation
+      for await (const event of readChatEvents(response.body)) {
+        switch (event.type) {
+          case "message_start":
+            if (event.userMessageId && userDisplayMessage) {
+              const userMessageId = event.userMessageId
+              setMessages((prevMessages) =>
+                prevMessages.map((msg) =>
+                  msg.id === userDisplayMessage.id
+                    ? { ...msg, id: userMessageId, siblingIds: [userMessageId], isLocal: false }
+                    : msg,
+                ),
+              )
+            }
+            break
+          case "text_delta":
+            assistantResponseContent += event.text
+            updateAssistantMessage((msg) => ({ ...msg, content: assistantResponseContent, isStreaming: true }))
+            break
+          case "search_queries":
+            updateAssistantMessage((msg) => ({ ...msg, search_queries: event.queries }))
+            break
+          case "sources":
+            updateAssistantMessage((msg) => ({ ...msg, sources: event.sources }))
+            break
+          case "usage":
+            updateAssistantMessage((msg) => ({
+              ...msg,
+              usage: event.usage,
+              tokens_used: event.usage.inputTokens + event.usage.outputTokens,
+            }))
+            break
+          case "message_saved":
+            persistedAssistantId = event.assistantMessageId
+            break
+          case "thread_updated":
+            // The page header shows the thread title; re-render it without losing this component's state
+            router.refresh()
+            break
+          case "error":
+            streamErrorMessage = event.message
+            updateAssistantMessage((msg) => ({ ...msg, error: true, errorMessage: event.message }))
+            break
+          case "done":
+            await completeReply()
+            break
         }
       }
 
+      // Streams cut off before "done" still settle the placeholder
+      await completeReply()
     } catch (error) {
+      if (replyFinished) {
+        // Only the trailing thread_updated was lost; the reply itself is already settled
+        console.error("Chat stream closed after the reply completed:", error)
+        return
+      }
       console.error("Chat error:", error)
       
       const isAborted = error instanceof Error && error.name === 'AbortError'
@@ -232,16 +357,123 @@ export default function ChatInterface({
               msg.id === assistantMessageId
                 ? {
                     ...msg,
-                    content: `❌ Error: ${error instanceof Error ? error.message : "Unknown error"}`,
                     isStreaming: false,
                     error: true,
+                    errorMessage: error instanceof Error ? error.message : "Unknown error",
                   }
                 : msg
             )
       )
+
+      finishReply()
+      if (refreshAfter) {
+        await refreshActivePath()
+      }
     } finally {
-      setIsLoading(false)
-      abortControllerRef.current = null
+      finishReply()
+    }
+  }
+
+  const handleSubmit = async (e?: FormEvent<HTMLFormElement>) => {
+    e?.preventDefault()
+
+    if (!input.trim() || isLoading) return
+
+    const userMessage = input.trim()
+    setInput("")
+
+    // Continue from the last confirmed message; the server falls back to the thread's active branch
+    const lastMessage = messages[messages.length - 1]
+    await streamReply({
+      requestBody: {
+        message: userMessage,
+        parentMessageId: lastMessage && !lastMessage.isLocal ? lastMessage.id : undefined,
+      },
+      baseMessages: messages,
+      userDisplayMessage: createLocalMessage("user", userMessage),
+      refreshAfter: false,
+    })
+  }
+
+  const handleRegenerate = async (assistantMessage: DisplayMessage) => {
+    if (isLoading || assistantMessage.isLocal) return
+
+    const index = messages.findIndex((msg) => msg.id === assistantMessage.id)
+    await streamReply({
+      requestBody: { regenerateMessageId: assistantMessage.id },
+      baseMessages: messages.slice(0, index),
+      userDisplayMessage: null,
+      refreshAfter: true,
+    })
+  }
+
+  const startEditing = (userMessage: DisplayMessage) => {
+    setEditingMessageId(userMessage.id)
+    setEditDraft(userMessage.content)
+  }
+
+  const cancelEditing = () => {
+    setEditingMessageId(null)
+    setEditDraft("")
+  }
+
+  const handleEditSubmit = async (userMessage: DisplayMessage) => {
+    const editedContent = editDraft.trim()
+    if (!editedContent || isLoading) return
+
+    cancelEditing()
+    const index = messages.findIndex((msg) => msg.id === userMessage.id)
+    await streamReply({
+      requestBody: { message: editedContent, editMessageId: userMessage.id },
+      baseMessages: messages.slice(0, index),
+      userDisplayMessage: createLocalMessage("user", editedContent),
+      refreshAfter: true,
+    })
+  }
+
+  const handleSwitchBranch = async (message: DisplayMessage, direction: -1 | 1) => {
+    const targetId = message.siblingIds[message.siblingIds.indexOf(message.id) + direction]
+    if (!targetId || isLoading) return
+
+    try {
+      const response = await fetch(`/api/chat_threads/${chatThreadId}/active_branch`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId: targetId }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to switch version")
+      }
+      const history = (await response.json()) as ThreadMessage[]
+      setMessages(history.map((m) => ({ ...m, id: m.id.toString() })))
+    } catch (error) {
+      toast.error((error as Error).message || "Could not switch version.")
+    }
+  }
+
+  const handleApplyScope = async (documentIds: string[] | null, target: ScopeTarget) => {
+    if (target === "message") {
+      setMessageScope(documentIds)
+      return
+    }
+    try {
+      const response = await fetch(`/api/projects/${projectId}/chat_threads/${chatThreadId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ documentIds }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to update document scope")
+      }
+      setThreadScope(documentIds)
+      setMessageScope(undefined)
+      toast.success(
+        documentIds ? "This thread now searches the selected documents." : "This thread searches all documents.",
+      )
+    } catch (error) {
+      toast.error((error as Error).message || "Could not update document scope.")
     }
   }
 
@@ -293,6 +525,7 @@ export default function ChatInterface({
             messages.map((message, index) => (
               <div
                 key={message.id || index}
+                id={`message-${message.id}`}
                 className={cn(
                   "flex items-start gap-3",
                   message.role === "user" ? "justify-end" : "justify-start"
@@ -308,24 +541,130 @@ export default function ChatInterface({
                 
                 <div
                   className={cn(
-                    "max-w-[80%] rounded-lg px-4 py-2 text-sm",
-                    message.role === "user"
-                      ? "bg-primary text-primary-foreground"
-                      : message.error
-                      ? "bg-destructive/10 text-destructive border border-destructive/20"
-                      : "bg-muted"
+                    "flex flex-col max-w-[80%] gap-1",
+                    message.role === "user" ? "items-end" : "items-start"
                   )}
                 >
-                  <div className="prose prose-sm dark:prose-invert max-w-none">
-                    <Markdown remarkPlugins={[remarkGfm]}>
-                      {message.content + (message.isStreaming ? "▍" : "")}
-                    </Markdown>
+                  <div
+                    className={cn(
+                      "rounded-lg px-4 py-2 text-sm",
+                      message.role === "user"
+                        ? "bg-primary text-primary-foreground"
+                        : message.error
+                        ? "bg-destructive/10 text-destructive border border-destructive/20"
+                        : "bg-muted",
+                      highlightedMessageId === message.id && "ring-2 ring-yellow-400 transition-shadow"
+                    )}
+                  >
+                    {editingMessageId === message.id ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={editDraft}
+                          onChange={(e) => setEditDraft(e.target.value)}
+                          className="min-w-[16rem] bg-background text-foreground"
+                          rows={3}
+                          maxLength={4000}
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="secondary" onClick={cancelEditing}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => handleEditSubmit(message)} disabled={!editDraft.trim()}>
+                            Save & resend
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      (message.content || message.isStreaming) && (
+                        <div className="prose prose-sm dark:prose-invert max-w-none">
+                          <Markdown remarkPlugins={[remarkGfm]}>
+                            {message.content + (message.isStreaming ? "▍" : "")}
+                          </Markdown>
+                        </div>
+                      )
+                    )}
+
+                    {message.errorMessage && (
+                      <div className="flex items-center gap-1 mt-2 text-xs text-destructive">
+                        <AlertCircle className="h-3 w-3" />
+                        <span>{message.errorMessage}</span>
+                      </div>
+                    )}
+
+                    {message.role === "assistant" && !message.isStreaming && message.tokens_used > 0 && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        {message.usage?.inputTokens ?? message.input_tokens} in /{" "}
+                        {message.usage?.outputTokens ?? message.output_tokens} out tokens
+                        {(message.usage?.cacheReadInputTokens ?? message.cache_read_input_tokens) > 0 &&
+                          ` (${message.usage?.cacheReadInputTokens ?? message.cache_read_input_tokens} cached)`}
+                      </p>
+                    )}
+
+                    {message.role === "assistant" && (message.sources || message.search_queries) && (
+                      <MessageSources sources={message.sources || []} searchQueries={message.search_queries} />
+                    )}
+
+                    {message.isStreaming && (
+                      <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        <span>Thinking...</span>
+                      </div>
+                    )}
                   </div>
-                  
-                  {message.isStreaming && (
-                    <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
-                      <Loader2 className="h-3 w-3 animate-spin" />
-                      <span>Thinking...</span>
+
+                  {!message.isStreaming && !message.isLocal && editingMessageId !== message.id && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      {message.siblingIds.length > 1 && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => handleSwitchBranch(message, -1)}
+                            disabled={isLoading || message.siblingIds[0] === message.id}
+                            title="Previous version"
+                          >
+                            <ChevronLeft className="h-3 w-3" />
+                          </Button>
+                          <span>
+                            {message.siblingIds.indexOf(message.id) + 1}/{message.siblingIds.length}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => handleSwitchBranch(message, 1)}
+                            disabled={isLoading || message.siblingIds[message.siblingIds.length - 1] === message.id}
+                            title="Next version"
+                          >
+                            <ChevronRight className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                      {message.role === "assistant" ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => handleRegenerate(message)}
+                          disabled={isLoading}
+                          title="Regenerate response"
+                        >
+                          <RefreshCw className="h-3 w-3" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => startEditing(message)}
+                          disabled={isLoading}
+                          title="Edit & resend"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
                     </div>
                   )}
                 </div>
@@ -362,6 +701,13 @@ export default function ChatInterface({
       {/* Input form */}
       <div className="p-4 border-t">
         <form onSubmit={handleSubmit} className="flex items-center gap-2 max-w-4xl mx-auto">
+          <DocumentScopePicker
+            projectId={projectId}
+            threadScope={threadScope}
+            messageScope={messageScope}
+            onApply={handleApplyScope}
+            disabled={isLoading}
+          />
           <Input
             value={input}
             onChange={(e) => setInput(e.target.value)}
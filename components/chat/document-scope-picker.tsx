@@ -0,0 +1,168 @@
+"use client"
+
+import { useState } from "react"
+import type { Document } from "@/types/database"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Files, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+export type ScopeTarget = "thread" | "message"
+
+interface DocumentScopePickerProps {
+  projectId: string
+  threadScope: string[] | null // Saved on the thread; null searches the whole project
+  messageScope: string[] | null | undefined // Override for the next message only; undefined follows the thread
+  onApply: (documentIds: string[] | null, target: ScopeTarget) => Promise<void>
+  disabled?: boolean
+}
+
+function describeScope(documentIds: string[] | null): string {
+  if (!documentIds) return "All documents"
+  return `${documentIds.length} document${documentIds.length === 1 ? "" : "s"}`
+}
+
+export default function DocumentScopePicker({
+  projectId,
+  threadScope,
+  messageScope,
+  onApply,
+  disabled,
+}: DocumentScopePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [documents, setDocuments] = useState<Document[] | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set()) // Empty selects the whole project
+  const [isApplying, setIsApplying] = useState(false)
+
+  const effectiveScope = messageScope !== undefined ? messageScope : threadScope
+  const tags = [...new Set((documents || []).flatMap((doc) => doc.tags || []))].sort()
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open)
+    if (!open) return
+    setSelected(new Set(effectiveScope || []))
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents`)
+      if (!response.ok) throw new Error("Failed to fetch documents")
+      setDocuments((await response.json()) as Document[])
+    } catch (error) {
+      toast.error((error as Error).message || "Could not load documents.")
+    }
+  }
+
+  const toggleDocument = (documentId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(documentId)) {
+        next.delete(documentId)
+      } else {
+        next.add(documentId)
+      }
+      return next
+    })
+  }
+
+  // Selects every document with the tag, or deselects them when all already are
+  const toggleTag = (tag: string) => {
+    const tagged = (documents || []).filter((doc) => doc.tags?.includes(tag)).map((doc) => doc.id)
+    setSelected((prev) => {
+      const next = new Set(prev)
+      const allSelected = tagged.every((id) => next.has(id))
+      for (const id of tagged) {
+        if (allSelected) {
+          next.delete(id)
+        } else {
+          next.add(id)
+        }
+      }
+      return next
+    })
+  }
+
+  const apply = async (target: ScopeTarget) => {
+    setIsApplying(true)
+    try {
+      await onApply(selected.size > 0 ? [...selected] : null, target)
+      setIsOpen(false)
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          title="Choose which documents are searched"
+          className="shrink-0"
+        >
+          <Files className="h-4 w-4 mr-1" />
+          {describeScope(effectiveScope)}
+          {messageScope !== undefined && " (next message)"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-3">
+        {!documents ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This project has no documents yet.</p>
+        ) : (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Checkbox checked={selected.size === 0} onCheckedChange={() => setSelected(new Set())} />
+              All documents
+            </label>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="secondary"
+                    className="cursor-pointer"
+                    onClick={() => toggleTag(tag)}
+                    title={`Select documents tagged "${tag}"`}
+                  >
+                    #{tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="max-h-60 space-y-1 overflow-y-auto pr-2">
+              {documents.map((doc) => (
+                <label key={doc.id} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={selected.has(doc.id)}
+                    onCheckedChange={() => toggleDocument(doc.id)}
+                    className="mt-0.5"
+                  />
+                  <span className="break-all">
+                    {doc.name}
+                    {doc.status !== "completed" && (
+                      <span className="text-xs text-muted-foreground"> ({doc.status})</span>
+                    )}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="secondary" onClick={() => apply("message")} disabled={isApplying}>
+                Next message only
+              </Button>
+              <Button size="sm" onClick={() => apply("thread")} disabled={isApplying}>
+                Use for this thread
+              </Button>
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
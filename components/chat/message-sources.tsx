@@ -0,0 +1,67 @@
+"use client"
+
+import { useState } from "react"
+import type { MessageSource, SearchQuery } from "@/types/database"
+import { formatSourcePages } from "@/lib/chat/sources"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { ChevronDown, ChevronRight, FileText, Search } from "lucide-react"
+
+interface MessageSourcesProps {
+  sources: MessageSource[]
+  searchQueries?: SearchQuery[] | null // Present when retrieval searched a rewrite of the prompt
+}
+
+const SEARCH_QUERY_LABELS: Record<SearchQuery["kind"], string> = {
+  standalone: "Searched",
+  sub_query: "Sub-query",
+  hypothetical: "Hypothetical answer",
+}
+
+export default function MessageSources({ sources, searchQueries }: MessageSourcesProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  if (sources.length === 0 && !searchQueries?.length) return null
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-2 border-t pt-2">
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground">
+        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Sources ({sources.length})
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {searchQueries && searchQueries.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {searchQueries.map((query, i) => (
+              <li key={i} className="flex items-start gap-2 text-xs text-muted-foreground">
+                <Search className="h-3 w-3 mt-0.5 shrink-0" />
+                <span className="break-words">
+                  {SEARCH_QUERY_LABELS[query.kind]}: <span className="italic">{query.text}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <ol className="mt-2 space-y-1">
+          {sources.map((source) => {
+            // Page ranges point at the exact spot in PDFs; other documents fall back to the chunk position
+            const location = formatSourcePages(source) ?? (source.chunkIndex !== null ? `chunk ${source.chunkIndex}` : null)
+            return (
+              <li key={source.chunkId} className="flex items-start gap-2 text-xs">
+                <span className="font-mono text-muted-foreground">[{source.index}]</span>
+                <FileText className="h-3 w-3 mt-0.5 shrink-0 text-muted-foreground" />
+                <span className="flex-grow break-all">
+                  {source.documentName}
+                  {source.headingPath && <span className="text-muted-foreground"> › {source.headingPath}</span>}
+                </span>
+                <span className="shrink-0 text-muted-foreground">
+                  {location && `${location} • `}
+                  {Math.round(source.similarity * 100)}% match
+                </span>
+              </li>
+            )
+          })}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
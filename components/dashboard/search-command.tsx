@@ -0,0 +1,149 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import type { Database } from "@/types/database"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { Bot, Loader2, MessageSquare, User } from "lucide-react"
+import { MIN_SEARCH_QUERY_LENGTH, splitHighlightedSnippet } from "@/lib/chat/search"
+
+type SearchResult = Database["public"]["Functions"]["search_chat_history"]["Returns"][number]
+
+// Wait for a pause in typing before hitting the search endpoint
+const SEARCH_DEBOUNCE_MS = 250
+
+interface SearchCommandProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitHighlightedSnippet(snippet).map((part, i) =>
+        part.highlighted ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-700">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        ),
+      )}
+    </>
+  )
+}
+
+// Command palette (Ctrl/Cmd+K) searching chat thread titles and messages across all projects
+export default function SearchCommand({ open, onOpenChange }: SearchCommandProps) {
+  const router = useRouter()
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < MIN_SEARCH_QUERY_LENGTH) {
+      setResults([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, { signal: controller.signal })
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || "Search failed")
+        }
+        setResults((await response.json()) as SearchResult[])
+      } catch (error) {
+        if ((error as Error).name !== "AbortError") {
+          console.error("Chat history search failed:", error)
+          setResults([])
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [query])
+
+  const openResult = (result: SearchResult) => {
+    onOpenChange(false)
+    const threadUrl = `/dashboard/projects/${result.project_id}/chat/${result.thread_id}`
+    router.push(result.message_id ? `${threadUrl}?message=${result.message_id}` : threadUrl)
+  }
+
+  const threadResults = results.filter((result) => !result.message_id)
+  const messageResults = results.filter((result) => result.message_id)
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} commandProps={{ shouldFilter: false }}>
+      <CommandInput placeholder="Search chats and messages..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        {isSearching && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!isSearching && query.trim().length >= MIN_SEARCH_QUERY_LENGTH && (
+          <CommandEmpty>No matching chats or messages.</CommandEmpty>
+        )}
+        {threadResults.length > 0 && (
+          <CommandGroup heading="Chats">
+            {threadResults.map((result) => (
+              <CommandItem key={result.thread_id} value={result.thread_id} onSelect={() => openResult(result)}>
+                <MessageSquare className="text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="truncate">
+                    <HighlightedSnippet snippet={result.snippet} />
+                  </p>
+                  <p className="text-xs text-muted-foreground">{result.project_name}</p>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {messageResults.length > 0 && (
+          <CommandGroup heading="Messages">
+            {messageResults.map((result) => (
+              <CommandItem
+                key={result.message_id}
+                value={result.message_id as string}
+                onSelect={() => openResult(result)}
+                className="items-start"
+              >
+                {result.message_role === "assistant" ? (
+                  <Bot className="mt-0.5 text-muted-foreground" />
+                ) : (
+                  <User className="mt-0.5 text-muted-foreground" />
+                )}
+                <div className="min-w-0">
+                  <p className="line-clamp-2 text-sm">
+                    <HighlightedSnippet snippet={result.snippet} />
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {result.project_name} • {result.thread_title || "Untitled chat"} •{" "}
+                    {new Date(result.matched_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
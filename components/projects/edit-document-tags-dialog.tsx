@@ -0,0 +1,123 @@
+"use client"
+
+import { useEffect, useState, type FormEvent } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Document } from "@/types/database"
+import { parseDocumentTags } from "@/lib/documents/tags"
+import { Loader2 } from "lucide-react"
+
+interface EditDocumentTagsDialogProps {
+  projectId: string
+  document: Document | null // Open while set
+  onOpenChange: (isOpen: boolean) => void
+  onTagsUpdated: (document: Document) => void
+}
+
+export default function EditDocumentTagsDialog({
+  projectId,
+  document,
+  onOpenChange,
+  onTagsUpdated,
+}: EditDocumentTagsDialogProps) {
+  const [tagsInput, setTagsInput] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    setTagsInput((document?.tags || []).join(", "))
+    setError(null)
+  }, [document])
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!document) return
+    // Same rules as the API, so mistakes show up before the request
+    const parsed = parseDocumentTags(tagsInput.split(","))
+    if (parsed.error !== undefined) {
+      setError(parsed.error)
+      return
+    }
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${document.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tags: parsed.tags }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to update tags")
+      }
+      onTagsUpdated((await response.json()) as Document)
+      onOpenChange(false)
+    } catch (error) {
+      setError((error as Error).message || "Could not update tags.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={document !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Tags</DialogTitle>
+          <DialogDescription className="break-all">
+            Labels for &quot;{document?.name}&quot;, used to pick groups of documents to chat against.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="document-tags">Tags, separated by commas</Label>
+            <Input
+              id="document-tags"
+              value={tagsInput}
+              onChange={(e) => {
+                setTagsInput(e.target.value)
+                setError(null)
+              }}
+              placeholder="contracts, 2024"
+              disabled={isSubmitting}
+              aria-invalid={error !== null}
+              aria-describedby={error ? "document-tags-error" : undefined}
+            />
+            {error && (
+              <p id="document-tags-error" className="text-sm text-red-500">
+                {error}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline" disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+                </>
+              ) : (
+                "Save Tags"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,7 +4,7 @@ import Link from "next/link"
 import type { Project } from "@/types/database"
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { ArrowRight, Trash2, BrainCircuit } from "lucide-react"
+import { ArrowRight, Trash2, BrainCircuit, Download } from "lucide-react"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -77,7 +77,8 @@ export default function ProjectCard({ project, onProjectDeleted }: ProjectCardPr
               <AlertDialogTitle>Are you sure?</AlertDialogTitle>
               <AlertDialogDescription>
                 This action cannot be undone. This will permanently delete the project "{project.name}" and all its
-                associated data (documents, chat threads, etc.).
+                associated data (documents, chat threads, etc.). Export the project first to keep a backup you can
+                import later.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -88,6 +89,11 @@ export default function ProjectCard({ project, onProjectDeleted }: ProjectCardPr
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+        <Button asChild variant="ghost" size="sm" title="Download the project as an archive">
+          <a href={`/api/projects/${project.id}/export`} download>
+            <Download className="h-4 w-4 mr-1" /> Export
+          </a>
+        </Button>
         <Button asChild variant="default" size="sm">
           <Link href={`/dashboard/projects/${project.id}`}>
             Open Project <ArrowRight className="ml-2 h-4 w-4" />
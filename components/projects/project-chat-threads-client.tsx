@@ -1,24 +1,68 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef, type ChangeEvent } from "react"
 import type { ChatThread } from "@/types/database"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { PlusCircle, MessageSquareText, Trash2, ArrowRight, RefreshCw } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  PlusCircle,
+  MessageSquareText,
+  Trash2,
+  ArrowRight,
+  RefreshCw,
+  Pencil,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Download,
+  Upload,
+} from "lucide-react"
 import Link from "next/link"
 import { toast } from "sonner"
 import { useRouter } from "next/navigation" // For navigation
+import QuotaMeter from "./quota-meter"
+import { CHAT_MODELS } from "@/lib/chat/models"
+import type { ThreadExportFormat } from "@/lib/chat/transcript"
+
+const EXPORT_OPTIONS: { format: ThreadExportFormat; label: string }[] = [
+  { format: "md", label: "Markdown (.md)" },
+  { format: "pdf", label: "PDF (.pdf)" },
+  { format: "json", label: "JSON, all branches (.json)" },
+]
+
+// Pinned threads first, then most recently active
+function sortThreads(threads: ChatThread[]): ChatThread[] {
+  return [...threads].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.updated_at.localeCompare(a.updated_at),
+  )
+}
 
 interface ProjectChatThreadsClientProps {
   initialChatThreads: ChatThread[]
   projectId: string
+  maxChatThreads: number | null // Plan limit per project, null for unlimited
 }
 
-export default function ProjectChatThreadsClient({ initialChatThreads, projectId }: ProjectChatThreadsClientProps) {
+export default function ProjectChatThreadsClient({
+  initialChatThreads,
+  projectId,
+  maxChatThreads,
+}: ProjectChatThreadsClientProps) {
   const [chatThreads, setChatThreads] = useState<ChatThread[]>(initialChatThreads)
   const [isLoadingList, setIsLoadingList] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
   const router = useRouter()
+  const isAtThreadLimit = maxChatThreads !== null && chatThreads.length >= maxChatThreads
 
   const fetchChatThreads = async () => {
     setIsLoadingList(true)
@@ -43,7 +87,7 @@ export default function ProjectChatThreadsClient({ initialChatThreads, projectId
       const response = await fetch(`/api/projects/${projectId}/chat_threads`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title: "New Chat" }), // Default title
+        body: JSON.stringify({}), // Titled "New Chat" until the first exchange names it
       })
       if (!response.ok) {
         const errorData = await response.json()
@@ -59,6 +103,60 @@ export default function ProjectChatThreadsClient({ initialChatThreads, projectId
     }
   }
 
+  const updateThread = async (threadId: string, changes: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/chat_threads/${threadId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to update chat thread")
+      }
+      const updatedThread = (await response.json()) as ChatThread
+      setChatThreads((prev) => sortThreads(prev.map((thread) => (thread.id === threadId ? updatedThread : thread))))
+    } catch (error) {
+      toast.error((error as Error).message || "Could not update chat thread.")
+    }
+  }
+
+  const handleRenameThread = async (thread: ChatThread) => {
+    const title = prompt("Rename chat thread:", thread.title || "")
+    if (title === null || !title.trim() || title.trim() === thread.title) return
+    await updateThread(thread.id, { title })
+  }
+
+  // Accepts our JSON export, a Claude.ai conversations.json or a Messages API transcript
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    setIsImporting(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/chat_threads/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to import chat threads")
+      }
+      const { threads, skipped } = (await response.json()) as { threads: ChatThread[]; skipped: number }
+      setChatThreads((prev) => sortThreads([...threads, ...prev]))
+      setShowArchived(false)
+      toast.success(
+        `Imported ${threads.length} chat thread${threads.length === 1 ? "" : "s"}.` +
+          (skipped > 0 ? ` ${skipped} skipped: chat thread limit reached.` : ""),
+      )
+    } catch (error) {
+      toast.error((error as Error).message || "Could not import chat threads.")
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
   const handleDeleteThread = async (threadId: string, threadTitle: string | null) => {
     if (
       !confirm(`Are you sure you want to delete chat thread "${threadTitle || "Untitled"}"? All messages will be lost.`)
@@ -80,6 +178,9 @@ export default function ProjectChatThreadsClient({ initialChatThreads, projectId
     }
   }
 
+  const archivedCount = chatThreads.filter((thread) => thread.archived).length
+  const visibleThreads = chatThreads.filter((thread) => thread.archived === showArchived)
+
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
@@ -87,12 +188,40 @@ export default function ProjectChatThreadsClient({ initialChatThreads, projectId
           <CardTitle>Chat Threads</CardTitle>
           <CardDescription>Start new conversations or continue existing ones within this project.</CardDescription>
         </div>
-        <Button onClick={handleCreateNewThread}>
+        <Button
+          onClick={handleCreateNewThread}
+          disabled={isAtThreadLimit}
+          title={isAtThreadLimit ? `Your plan allows ${maxChatThreads} chat threads per project` : undefined}
+        >
           <PlusCircle className="mr-2 h-4 w-4" /> New Chat
         </Button>
       </CardHeader>
       <CardContent>
-        <div className="flex justify-end mb-2">
+        <div className="mb-4 max-w-xs">
+          <QuotaMeter label="Chat threads" used={chatThreads.length} max={maxChatThreads} />
+        </div>
+        <div className="flex justify-end gap-2 mb-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button
+            onClick={() => importInputRef.current?.click()}
+            variant="outline"
+            size="sm"
+            disabled={isImporting || isAtThreadLimit}
+            title="Import a ClaudeDesk or Claude.ai JSON export"
+          >
+            <Upload className={`mr-2 h-4 w-4 ${isImporting ? "animate-pulse" : ""}`} /> Import
+          </Button>
+          {(archivedCount > 0 || showArchived) && (
+            <Button onClick={() => setShowArchived((prev) => !prev)} variant="ghost" size="sm">
+              {showArchived ? "Show active chats" : `Show archived (${archivedCount})`}
+            </Button>
+          )}
           <Button onClick={fetchChatThreads} variant="outline" size="sm" disabled={isLoadingList}>
             <RefreshCw className={`mr-2 h-4 w-4 ${isLoadingList ? "animate-spin" : ""}`} /> Refresh List
           </Button>
@@ -100,11 +229,16 @@ export default function ProjectChatThreadsClient({ initialChatThreads, projectId
         {chatThreads.length === 0 && !isLoadingList && (
           <p className="text-center text-muted-foreground py-4">No chat threads yet. Start a new one!</p>
         )}
+        {chatThreads.length > 0 && visibleThreads.length === 0 && (
+          <p className="text-center text-muted-foreground py-4">
+            {showArchived ? "No archived chat threads." : "All chat threads are archived."}
+          </p>
+        )}
         {isLoadingList && chatThreads.length === 0 && (
           <p className="text-center text-muted-foreground py-4">Loading chat threads...</p>
         )}
 
-        {chatThreads.length > 0 && (
+        {visibleThreads.length > 0 && (
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
@@ -116,17 +250,74 @@ export default function ProjectChatThreadsClient({ initialChatThreads, projectId
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {chatThreads.map((thread) => (
+                {visibleThreads.map((thread) => (
                   <TableRow key={thread.id}>
-                    <TableCell className="font-medium flex items-center">
-                      <MessageSquareText className="h-4 w-4 mr-2 text-muted-foreground" />
-                      {thread.title || "Untitled Chat"}
+                    <TableCell>
+                      <div className="font-medium flex items-center">
+                        <MessageSquareText className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+                        {thread.title || "Untitled Chat"}
+                        {thread.pinned && <Pin className="h-3 w-3 ml-2 shrink-0 text-muted-foreground" />}
+                      </div>
+                      {thread.synopsis && (
+                        <p className="mt-1 pl-6 text-xs text-muted-foreground line-clamp-2">{thread.synopsis}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell">
+                      <select
+                        value={thread.model}
+                        onChange={(e) => updateThread(thread.id, { model: e.target.value })}
+                        className="rounded-md border p-1 text-sm bg-input dark:border-gray-600"
+                        aria-label="Model"
+                      >
+                        {!CHAT_MODELS.some((model) => model.id === thread.model) && (
+                          <option value={thread.model}>{thread.model}</option>
+                        )}
+                        {CHAT_MODELS.map((model) => (
+                          <option key={model.id} value={model.id}>
+                            {model.label}
+                          </option>
+                        ))}
+                      </select>
                     </TableCell>
-                    <TableCell className="hidden sm:table-cell">{thread.model}</TableCell>
                     <TableCell className="hidden md:table-cell">
                       {new Date(thread.updated_at).toLocaleString()}
                     </TableCell>
-                    <TableCell className="text-right space-x-2">
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button variant="ghost" size="icon" onClick={() => handleRenameThread(thread)} title="Rename">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateThread(thread.id, { pinned: !thread.pinned })}
+                        title={thread.pinned ? "Unpin" : "Pin to top"}
+                      >
+                        {thread.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateThread(thread.id, { archived: !thread.archived })}
+                        title={thread.archived ? "Unarchive" : "Archive"}
+                      >
+                        {thread.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" title="Export">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {EXPORT_OPTIONS.map((option) => (
+                            <DropdownMenuItem key={option.format} asChild>
+                              <a href={`/api/chat_threads/${thread.id}/export?format=${option.format}`} download>
+                                {option.label}
+                              </a>
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
                       <Button
                         variant="ghost"
                         size="icon"
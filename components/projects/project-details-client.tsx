@@ -6,8 +6,10 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import { useState, type FormEvent } from "react"
 import { toast } from "sonner"
+import { resolveRetrievalSettings, type RetrievalSettings } from "@/lib/chat/retrieval-settings"
 
 interface ProjectDetailsClientProps {
   project: Project
@@ -17,7 +19,14 @@ export default function ProjectDetailsClient({ project: initialProject }: Projec
   const [project, setProject] = useState<Project>(initialProject)
   const [name, setName] = useState(initialProject.name)
   const [description, setDescription] = useState(initialProject.description || "")
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(
+    resolveRetrievalSettings(initialProject.retrieval_settings),
+  )
+  const [embeddingProvider, setEmbeddingProvider] = useState(initialProject.embedding_provider)
+  const [contextualRetrieval, setContextualRetrieval] = useState(initialProject.contextual_retrieval)
   const [isSaving, setIsSaving] = useState(false)
+  const embeddingProviderChanged = embeddingProvider !== project.embedding_provider
+  const contextualRetrievalChanged = contextualRetrieval !== project.contextual_retrieval
 
   const handleSaveChanges = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
@@ -26,15 +35,24 @@ export default function ProjectDetailsClient({ project: initialProject }: Projec
       const response = await fetch(`/api/projects/${project.id}`, {
         method: "PUT", // Assuming you'll add a PUT endpoint to update project details
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, description }),
+        body: JSON.stringify({ name, description, retrievalSettings, embeddingProvider, contextualRetrieval }),
       })
       if (!response.ok) {
         const errorData = await response.json()
         throw new Error(errorData.error || "Failed to update project")
       }
-      const updatedProject = await response.json()
+      const updatedProject = (await response.json()) as Project
       setProject(updatedProject)
-      toast.success("Project details updated successfully!")
+      setRetrievalSettings(resolveRetrievalSettings(updatedProject.retrieval_settings))
+      setEmbeddingProvider(updatedProject.embedding_provider)
+      setContextualRetrieval(updatedProject.contextual_retrieval)
+      toast.success(
+        embeddingProviderChanged
+          ? "Project updated. Documents are being re-embedded with the new model."
+          : contextualRetrievalChanged
+            ? "Project updated. Documents are being re-embedded with the new context setting."
+            : "Project details updated successfully!",
+      )
     } catch (error) {
       toast.error((error as Error).message || "Could not update project details.")
     } finally {
@@ -42,6 +60,10 @@ export default function ProjectDetailsClient({ project: initialProject }: Projec
     }
   }
 
+  const updateRetrievalSetting = (key: Exclude<keyof RetrievalSettings, "reranker" | "queryMode">, value: string) => {
+    setRetrievalSettings((prev) => ({ ...prev, [key]: Number(value) }))
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -70,6 +92,157 @@ export default function ProjectDetailsClient({ project: initialProject }: Projec
               placeholder="A brief description of your project."
             />
           </div>
+          <div className="space-y-2 rounded-lg border p-4">
+            <div>
+              <h3 className="text-sm font-medium">Retrieval</h3>
+              <p className="text-xs text-muted-foreground">
+                Chat answers combine keyword and semantic search over this project's documents.
+              </p>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="matchThreshold">Similarity Threshold</Label>
+                <Input
+                  id="matchThreshold"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={retrievalSettings.matchThreshold}
+                  onChange={(e) => updateRetrievalSetting("matchThreshold", e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="matchCount">Chunks per Answer</Label>
+                <Input
+                  id="matchCount"
+                  type="number"
+                  min={1}
+                  max={20}
+                  step={1}
+                  value={retrievalSettings.matchCount}
+                  onChange={(e) => updateRetrievalSetting("matchCount", e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="fullTextWeight">Keyword Weight</Label>
+                <Input
+                  id="fullTextWeight"
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={retrievalSettings.fullTextWeight}
+                  onChange={(e) => updateRetrievalSetting("fullTextWeight", e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="semanticWeight">Semantic Weight</Label>
+                <Input
+                  id="semanticWeight"
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={retrievalSettings.semanticWeight}
+                  onChange={(e) => updateRetrievalSetting("semanticWeight", e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="candidateCount">Candidates to Rerank</Label>
+                <Input
+                  id="candidateCount"
+                  type="number"
+                  min={1}
+                  max={100}
+                  step={1}
+                  value={retrievalSettings.candidateCount}
+                  onChange={(e) => updateRetrievalSetting("candidateCount", e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="contextTokenBudget">Context Token Budget</Label>
+                <Input
+                  id="contextTokenBudget"
+                  type="number"
+                  min={500}
+                  max={50000}
+                  step={500}
+                  value={retrievalSettings.contextTokenBudget}
+                  onChange={(e) => updateRetrievalSetting("contextTokenBudget", e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="reranker">Reranker</Label>
+              <select
+                id="reranker"
+                value={retrievalSettings.reranker}
+                onChange={(e) => setRetrievalSettings((prev) => ({ ...prev, reranker: e.target.value }))}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 bg-input dark:border-gray-600"
+              >
+                <option value="none">None (keep search order)</option>
+                <option value="local">Local cross-encoder (ms-marco-MiniLM-L-6-v2, no API key)</option>
+                <option value="claude">Claude as judge (Claude Haiku, uses your API key)</option>
+              </select>
+              <p className="text-xs mt-1 text-muted-foreground">
+                The best-scoring candidates that fit the token budget are sent with each question, skipping
+                near-duplicate chunks.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="queryMode">Query Rewriting</Label>
+              <select
+                id="queryMode"
+                value={retrievalSettings.queryMode}
+                onChange={(e) => setRetrievalSettings((prev) => ({ ...prev, queryMode: e.target.value }))}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 bg-input dark:border-gray-600"
+              >
+                <option value="raw">Off (search the message as typed)</option>
+                <option value="rewrite">Standalone query for follow-up questions</option>
+                <option value="multi_query">Standalone query plus sub-queries</option>
+                <option value="hyde">Standalone query plus hypothetical answer (HyDE)</option>
+              </select>
+              <p className="text-xs mt-1 text-muted-foreground">
+                Rewrites each question with the recent conversation using Claude Haiku on your API key (shown under
+                usage as query_rewrite). The queries searched are listed under each reply's sources.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="embeddingProvider">Embedding Model</Label>
+              <select
+                id="embeddingProvider"
+                value={embeddingProvider}
+                onChange={(e) => setEmbeddingProvider(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 bg-input dark:border-gray-600"
+              >
+                <option value="openai">OpenAI text-embedding-3-small</option>
+                <option value="local">Local CPU model (all-MiniLM-L6-v2, no API key)</option>
+                {project.embedding_provider === "fake" && <option value="fake">Fake (development only)</option>}
+              </select>
+              <p className={`text-xs mt-1 ${embeddingProviderChanged ? "text-destructive" : "text-muted-foreground"}`}>
+                Changing the model re-embeds every document in this project.
+              </p>
+            </div>
+            <div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="contextualRetrieval">Contextual Retrieval</Label>
+                <Switch id="contextualRetrieval" checked={contextualRetrieval} onCheckedChange={setContextualRetrieval} />
+              </div>
+              <p className={`text-xs mt-1 ${contextualRetrievalChanged ? "text-destructive" : "text-muted-foreground"}`}>
+                Claude writes a short description of where each chunk fits in its document, which is embedded with
+                the chunk. Improves retrieval of passages that don&apos;t name their subject, at the cost of one
+                Claude Haiku call per chunk on your API key (shown under usage as chunk_context). Changing this
+                re-embeds every document in this project.
+              </p>
+            </div>
+          </div>
           <div>
             <Label htmlFor="createdAt">Created At</Label>
             <Input
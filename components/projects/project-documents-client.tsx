@@ -3,26 +3,102 @@
 import { Label } from "@/components/ui/label"
 
 import { useState, useEffect, type ChangeEvent } from "react"
-import type { Document } from "@/types/database"
+import type { Document, DocumentProcessingStage } from "@/types/database"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { UploadCloud, FileText, Trash2, RefreshCw, CheckCircle, XCircle, AlertTriangle } from "lucide-react"
+import {
+  UploadCloud,
+  FileText,
+  Trash2,
+  RefreshCw,
+  RotateCw,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Tag,
+} from "lucide-react"
+import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
 import { Progress } from "@/components/ui/progress"
+import QuotaMeter from "./quota-meter"
+import EditDocumentTagsDialog from "./edit-document-tags-dialog"
+import { formatBytes } from "@/lib/usage/quotas"
+import { getFileTypeLabel, SUPPORTED_FILE_ACCEPT, SUPPORTED_FORMATS_LABEL } from "@/lib/documents/file-types"
+
+// How often the list is refreshed while any document is queued or processing
+const PROGRESS_POLL_INTERVAL_MS = 3000
+
+const STAGE_LABELS: Record<DocumentProcessingStage, string> = {
+  downloading: "Downloading",
+  extracting: "Extracting text",
+  chunking: "Chunking",
+  contextualizing: "Adding chunk context",
+  embedding: "Embedding",
+  done: "Done",
+}
+
+// Overall progress for the bar: the stages before embedding are quick, so they get the first quarter
+function getProgressPercent(doc: Document): number {
+  switch (doc.processing_stage) {
+    case "downloading":
+      return 5
+    case "extracting":
+      return 15
+    case "chunking":
+      return 20
+    case "contextualizing":
+      return doc.chunks_total > 0 ? 20 + Math.round((doc.chunks_processed / doc.chunks_total) * 5) : 20
+    case "embedding":
+      return doc.chunks_total > 0 ? 25 + Math.round((doc.chunks_processed / doc.chunks_total) * 75) : 25
+    case "done":
+      return 100
+    default:
+      return 0
+  }
+}
+
+function getStatusLabel(doc: Document): string {
+  switch (doc.status) {
+    case "pending":
+      return doc.processing_error ? "Retrying" : "Queued"
+    case "processing":
+      if (doc.processing_stage === "embedding") {
+        return `Embedding ${doc.chunks_processed}/${doc.chunks_total}`
+      }
+      if (doc.processing_stage === "contextualizing") {
+        return `Adding context ${doc.chunks_processed}/${doc.chunks_total}`
+      }
+      return doc.processing_stage ? STAGE_LABELS[doc.processing_stage] : "Processing"
+    case "completed":
+      return doc.chunks_total > 0 ? `Completed (${doc.chunks_total} chunks)` : "Completed"
+    case "failed":
+      return "Failed"
+    default:
+      return doc.status
+  }
+}
 
 interface ProjectDocumentsClientProps {
   initialDocuments: Document[]
   projectId: string
+  maxDocumentBytes: number | null // Plan storage limit for this project, null for unlimited
 }
 
-export default function ProjectDocumentsClient({ initialDocuments, projectId }: ProjectDocumentsClientProps) {
+export default function ProjectDocumentsClient({
+  initialDocuments,
+  projectId,
+  maxDocumentBytes,
+}: ProjectDocumentsClientProps) {
   const [documents, setDocuments] = useState<Document[]>(initialDocuments)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
   const [isLoadingList, setIsLoadingList] = useState(false)
+  const [taggingDocument, setTaggingDocument] = useState<Document | null>(null)
+
+  const usedDocumentBytes = documents.reduce((total, doc) => total + (doc.file_size || 0), 0)
 
   const fetchDocuments = async () => {
     setIsLoadingList(true)
@@ -38,10 +114,24 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
     }
   }
 
+  const hasActiveDocuments = documents.some((doc) => doc.status === "pending" || doc.status === "processing")
+
+  // Initial load is SSR; poll quietly while the worker is still ingesting something
   useEffect(() => {
-    // Initial load is SSR, this effect is for subsequent client-side refreshes if needed
-    // fetchDocuments(); // Potentially call if real-time updates are desired or after certain actions
-  }, [projectId])
+    if (!hasActiveDocuments) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/documents`)
+        if (response.ok) {
+          setDocuments((await response.json()) as Document[])
+        }
+      } catch (pollError) {
+        console.error("Failed to refresh document progress:", pollError)
+      }
+    }, PROGRESS_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [projectId, hasActiveDocuments])
 
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files[0]) {
@@ -54,6 +144,13 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
       toast.error("Please select a file to upload.")
       return
     }
+    if (maxDocumentBytes !== null && usedDocumentBytes + selectedFile.size > maxDocumentBytes) {
+      toast.error(
+        `This file would exceed your plan's ${formatBytes(maxDocumentBytes)} document limit for this project ` +
+          `(${formatBytes(usedDocumentBytes)} used).`,
+      )
+      return
+    }
     setIsUploading(true)
     setUploadProgress(0)
 
@@ -82,9 +179,7 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
         if (xhr.status >= 200 && xhr.status < 300) {
           const newDocument = JSON.parse(xhr.responseText) as Document
           setDocuments((prev) => [{ ...newDocument, status: "pending" }, ...prev]) // Optimistically add with pending
-          toast.success(`Document "${newDocument.name}" uploaded successfully. Initiating processing...`)
-          // Optionally trigger processing immediately or rely on a backend worker
-          triggerDocumentProcessing(newDocument.id, newDocument.name) // Pass name for toast
+          toast.success(`Document "${newDocument.name}" uploaded. It will be processed in the background.`)
         } else {
           const errorData = JSON.parse(xhr.responseText)
           toast.error(errorData.error || `Upload failed with status: ${xhr.status}`)
@@ -105,25 +200,20 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
     }
   }
 
-  async function triggerDocumentProcessing(documentId: string, documentName: string) {
+  const handleReprocessDocument = async (documentId: string, documentName: string) => {
     try {
-      const response = await fetch(`/api/process-document`, {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/reprocess`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ documentId, projectId }), // Pass projectId here
       })
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.error || "Failed to start processing")
+        throw new Error(errorData.error || "Failed to reprocess document")
       }
-      toast.info(`Processing for "${documentName}" initiated.`)
-      // Update local document status after triggering processing
-      setDocuments((prevDocs) =>
-        prevDocs.map((doc) => (doc.id === documentId ? { ...doc, status: "processing" } : doc)),
-      )
-      setTimeout(fetchDocuments, 7000) // Slightly longer delay for processing
+      const updatedDocument = (await response.json()) as Document
+      setDocuments((prev) => prev.map((doc) => (doc.id === documentId ? updatedDocument : doc)))
+      toast.success(`"${documentName}" queued for reprocessing.`)
     } catch (error) {
-      toast.error(`Processing error: ${(error as Error).message}`)
+      toast.error((error as Error).message || "Could not reprocess document.")
     }
   }
 
@@ -166,7 +256,7 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
       <CardHeader>
         <CardTitle>Project Documents</CardTitle>
         <CardDescription>
-          Manage the knowledge base for this project. Upload PDF, DOCX, TXT, or CSV files.
+          Manage the knowledge base for this project. Upload {SUPPORTED_FORMATS_LABEL} files.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -183,7 +273,7 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
                        file:text-sm file:font-semibold
                        file:bg-primary/10 file:text-primary
                        hover:file:bg-primary/20 dark:file:bg-primary/80 dark:file:text-primary-foreground dark:hover:file:bg-primary"
-                accept=".pdf,.docx,.txt,.csv"
+                accept={SUPPORTED_FILE_ACCEPT}
                 disabled={isUploading}
               />
             </Label>
@@ -197,6 +287,10 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
           )}
         </div>
 
+        <div className="mb-4 max-w-xs">
+          <QuotaMeter label="Document storage" used={usedDocumentBytes} max={maxDocumentBytes} format={formatBytes} />
+        </div>
+
         <div className="flex justify-end mb-2">
           <Button onClick={fetchDocuments} variant="outline" size="sm" disabled={isLoadingList}>
             <RefreshCw className={`mr-2 h-4 w-4 ${isLoadingList ? "animate-spin" : ""}`} /> Refresh List
@@ -226,24 +320,56 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
               <TableBody>
                 {documents.map((doc) => (
                   <TableRow key={doc.id}>
-                    <TableCell className="font-medium flex items-center">
-                      <FileText className="h-4 w-4 mr-2 text-muted-foreground" />
-                      {doc.name}
+                    <TableCell className="font-medium">
+                      <div className="flex items-center">
+                        <FileText className="h-4 w-4 mr-2 text-muted-foreground" />
+                        {doc.name}
+                      </div>
+                      {doc.tags && doc.tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1 pl-6">
+                          {doc.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-xs font-normal">
+                              #{tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </TableCell>
-                    <TableCell className="hidden sm:table-cell">{doc.mime_type?.split("/")[1] || "N/A"}</TableCell>
+                    <TableCell className="hidden sm:table-cell">{getFileTypeLabel(doc.mime_type)}</TableCell>
                     <TableCell className="hidden md:table-cell">
                       {doc.file_size ? (doc.file_size / 1024 / 1024).toFixed(2) + " MB" : "N/A"}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         {getStatusIcon(doc.status)}
-                        <span className="capitalize">{doc.status}</span>
+                        <span>{getStatusLabel(doc)}</span>
                       </div>
+                      {doc.status === "processing" && (
+                        <Progress value={getProgressPercent(doc)} className="mt-1 h-1.5 w-32" />
+                      )}
+                      {doc.processing_error && (doc.status === "failed" || doc.status === "pending") && (
+                        <p className="mt-1 max-w-xs truncate text-xs text-destructive" title={doc.processing_error}>
+                          {doc.processing_error}
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell className="hidden md:table-cell">
                       {new Date(doc.created_at).toLocaleDateString()}
                     </TableCell>
                     <TableCell className="text-right">
+                      {(doc.status === "failed" || doc.status === "completed") && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleReprocessDocument(doc.id, doc.name)}
+                          title="Reprocess document"
+                        >
+                          <RotateCw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => setTaggingDocument(doc)} title="Edit tags">
+                        <Tag className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -260,6 +386,14 @@ export default function ProjectDocumentsClient({ initialDocuments, projectId }:
           </div>
         )}
       </CardContent>
+      <EditDocumentTagsDialog
+        projectId={projectId}
+        document={taggingDocument}
+        onOpenChange={(isOpen) => !isOpen && setTaggingDocument(null)}
+        onTagsUpdated={(updatedDocument) =>
+          setDocuments((prev) => prev.map((d) => (d.id === updatedDocument.id ? updatedDocument : d)))
+        }
+      />
     </Card>
   )
 }
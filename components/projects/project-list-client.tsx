@@ -1,23 +1,28 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef, type ChangeEvent } from "react"
 import type { Project } from "@/types/database"
 import ProjectCard from "./project-card"
 import CreateProjectDialog from "./create-project-dialog"
 import { Button } from "@/components/ui/button"
-import { PlusCircle, Loader2 } from "lucide-react" // Added Loader2
+import { PlusCircle, Loader2, Upload } from "lucide-react" // Added Loader2
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "sonner" // For error toasts
+import QuotaMeter from "./quota-meter"
+import { PLAN_LIMITS, PLAN_NAMES, type PlanTier } from "@/lib/usage/quotas"
 
 type ProjectListClientProps = {
   initialProjects: Project[]
+  plan: PlanTier
 }
 
-export default function ProjectListClient({ initialProjects }: ProjectListClientProps) {
+export default function ProjectListClient({ initialProjects, plan }: ProjectListClientProps) {
   const [projects, setProjects] = useState<Project[]>(initialProjects)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [isFetching, setIsFetching] = useState(false) // For manual refresh
+  const [isImporting, setIsImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
     setProjects(initialProjects)
@@ -43,11 +48,38 @@ export default function ProjectListClient({ initialProjects }: ProjectListClient
     }
   }
 
+  const maxProjects = PLAN_LIMITS[plan].maxProjects
+  const isAtProjectLimit = maxProjects !== null && projects.length >= maxProjects
+
   const handleProjectCreated = (newProject: Project) => {
     setProjects((prevProjects) => [newProject, ...prevProjects])
     // No need to navigate here, user stays on projects list
   }
 
+  // Recreates a project from a .claudedesk.zip made by a project's Export button
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    setIsImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const response = await fetch("/api/projects/import", { method: "POST", body: formData })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to import project")
+      }
+      const importedProject = (await response.json()) as Project
+      setProjects((prevProjects) => [importedProject, ...prevProjects])
+      toast.success(`Project "${importedProject.name}" imported.`)
+    } catch (error) {
+      toast.error((error as Error).message || "Could not import project.")
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
   const handleProjectDeleted = (deletedProjectId: string) => {
     setProjects((prevProjects) => prevProjects.filter((p) => p.id !== deletedProjectId))
   }
@@ -65,12 +97,36 @@ export default function ProjectListClient({ initialProjects }: ProjectListClient
             )}
             Refresh
           </Button>
-          <Button onClick={() => setIsCreateDialogOpen(true)}>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button
+            variant="outline"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting || isAtProjectLimit}
+            title="Import a project archive"
+          >
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import
+          </Button>
+          <Button
+            onClick={() => setIsCreateDialogOpen(true)}
+            disabled={isAtProjectLimit}
+            title={isAtProjectLimit ? `Your ${PLAN_NAMES[plan]} plan allows ${maxProjects} projects` : undefined}
+          >
             <PlusCircle className="mr-2 h-4 w-4" /> Create Project
           </Button>
         </div>
       </div>
 
+      <div className="mb-6 max-w-xs">
+        <QuotaMeter label={`Projects (${PLAN_NAMES[plan]} plan)`} used={projects.length} max={maxProjects} />
+      </div>
+
       {isLoading ? (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
           {[...Array(3)].map((_, i) => (
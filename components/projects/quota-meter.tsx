@@ -0,0 +1,27 @@
+"use client"
+
+import { Progress } from "@/components/ui/progress"
+
+interface QuotaMeterProps {
+  label: string
+  used: number
+  max: number | null // null for unlimited
+  format?: (value: number) => string
+}
+
+// Current usage against a plan limit, e.g. "Projects: 2 of 3"
+export default function QuotaMeter({ label, used, max, format = String }: QuotaMeterProps) {
+  const isAtLimit = max !== null && used >= max
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span className={isAtLimit ? "text-destructive font-medium" : undefined}>
+          {max === null ? `${format(used)} (unlimited)` : `${format(used)} of ${format(max)}`}
+        </span>
+      </div>
+      {max !== null && <Progress value={Math.min(100, (used / max) * 100)} className="h-1.5" />}
+    </div>
+  )
+}
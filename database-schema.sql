@@ -8,6 +8,9 @@ CREATE TABLE IF NOT EXISTS projects (
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
   name TEXT NOT NULL,
   description TEXT,
+  retrieval_settings JSONB, -- Per-project overrides for hybrid search (threshold, k, fusion weights)
+  embedding_provider TEXT DEFAULT 'openai' NOT NULL CHECK (embedding_provider IN ('openai', 'local', 'fake')),
+  contextual_retrieval BOOLEAN DEFAULT false NOT NULL, -- Embed a Claude-written context with each chunk (costs tokens at ingestion)
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -18,6 +21,7 @@ CREATE TABLE IF NOT EXISTS user_settings (
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
   anthropic_api_key TEXT, -- Client-side encrypted
   preferred_model TEXT DEFAULT 'claude-3-5-sonnet-20241022',
+  plan TEXT DEFAULT 'free' NOT NULL CHECK (plan IN ('free', 'pro', 'team', 'enterprise')), -- Set by billing, never by the user
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   UNIQUE(user_id)
@@ -33,6 +37,12 @@ CREATE TABLE IF NOT EXISTS documents (
   file_size BIGINT,
   mime_type TEXT,
   status TEXT DEFAULT 'pending' CHECK (status IN ('processing', 'completed', 'failed', 'pending')),
+  -- Ingestion progress, written by the worker while processing
+  processing_stage TEXT CHECK (processing_stage IN ('downloading', 'extracting', 'chunking', 'contextualizing', 'embedding', 'done')),
+  chunks_total INTEGER DEFAULT 0 NOT NULL,
+  chunks_processed INTEGER DEFAULT 0 NOT NULL,
+  processing_error TEXT, -- Last failure; kept while a retry is pending
+  tags TEXT[] DEFAULT '{}' NOT NULL, -- User labels for picking groups of documents to chat against
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -45,9 +55,16 @@ CREATE TABLE IF NOT EXISTS document_chunks (
   project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL, -- Added project_id
   content TEXT NOT NULL,
   context TEXT, 
+  generated_context TEXT, -- Claude-written text situating the chunk in its document; embedded with content (contextual retrieval)
   embedding vector(1536), 
   chunk_index INTEGER,
   tokens INTEGER,
+  content_hash TEXT, -- SHA-256 of content; reprocessing skips chunks whose hash is unchanged
+  embedding_model TEXT, -- Model that produced embedding; retrieval only compares vectors from the same model
+  metadata JSONB, -- Chunker details (boundary, chunk type, length)
+  page_start INTEGER, -- First and last page the chunk's text comes from (paginated formats such as PDF)
+  page_end INTEGER,
+  content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED, -- Lexical side of hybrid search
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -58,6 +75,12 @@ CREATE TABLE IF NOT EXISTS chat_threads (
   project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL, -- Added project_id
   title TEXT,
   model TEXT DEFAULT 'claude-3-5-sonnet-20241022',
+  summary TEXT, -- Rolling summary of turns that no longer fit the model's history budget
+  summarized_until TIMESTAMPTZ, -- created_at of the newest message folded into summary (see summarized_through_message_id)
+  document_scope UUID[], -- Documents retrieval is limited to; NULL searches the whole project
+  synopsis TEXT, -- One- or two-sentence description shown in the thread list, refreshed as the chat goes on
+  pinned BOOLEAN DEFAULT false NOT NULL,
+  archived BOOLEAN DEFAULT false NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -69,20 +92,165 @@ CREATE TABLE IF NOT EXISTS messages (
   -- user_id could be added here if needed for direct message RLS, but chat_thread ownership should cover it
   role TEXT CHECK (role IN ('user', 'assistant')),
   content TEXT NOT NULL,
-  tokens_used INTEGER DEFAULT 0,
+  tokens_used INTEGER DEFAULT 0, -- input_tokens + output_tokens
+  input_tokens INTEGER DEFAULT 0,
+  output_tokens INTEGER DEFAULT 0,
+  cache_creation_input_tokens INTEGER DEFAULT 0,
+  cache_read_input_tokens INTEGER DEFAULT 0,
+  sources JSONB, -- Retrieved document chunks cited by an assistant message
+  search_queries JSONB, -- Rewritten queries retrieval searched for an assistant message
+  content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED, -- Chat history search
+  parent_message_id UUID REFERENCES messages(id) ON DELETE CASCADE, -- Previous turn; NULL for the first prompt
+  sibling_index INTEGER DEFAULT 0 NOT NULL, -- Position among regenerated/edited alternatives of the same parent
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Usage ledger: one row per billable model call, for cost reporting per user/project/model
+CREATE TABLE IF NOT EXISTS usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  model TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('chat', 'summary', 'query_embedding', 'document_embedding', 'chunk_context', 'rerank', 'query_rewrite')),
+  input_tokens INTEGER DEFAULT 0 NOT NULL,
+  output_tokens INTEGER DEFAULT 0 NOT NULL,
+  cache_creation_input_tokens INTEGER DEFAULT 0 NOT NULL,
+  cache_read_input_tokens INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Background ingestion jobs. A worker claims a job with a lease and extends it with heartbeats;
+-- when a worker dies the lease expires and the job is claimed again.
+CREATE TABLE IF NOT EXISTS document_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  status TEXT DEFAULT 'queued' NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  max_attempts INTEGER DEFAULT 5 NOT NULL,
+  run_after TIMESTAMPTZ DEFAULT NOW() NOT NULL, -- Not claimable before this (retry backoff)
+  locked_by TEXT, -- Worker holding the lease
+  lease_expires_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Columns added after the initial release (safe to re-run on existing databases)
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS sources JSONB;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS retrieval_settings JSONB;
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS summarized_until TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS input_tokens INTEGER DEFAULT 0;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS output_tokens INTEGER DEFAULT 0;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS cache_creation_input_tokens INTEGER DEFAULT 0;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS cache_read_input_tokens INTEGER DEFAULT 0;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_message_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS sibling_index INTEGER DEFAULT 0 NOT NULL;
+-- Leaf of the branch currently shown for the thread (added here because messages is created after chat_threads)
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS active_leaf_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+-- Link messages of threads created before branching existed into a single chain
+UPDATE messages m
+SET parent_message_id = chained.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY chat_thread_id ORDER BY created_at) AS previous_id
+  FROM messages
+) chained
+WHERE m.id = chained.id
+  AND chained.previous_id IS NOT NULL
+  AND m.chat_thread_id NOT IN (SELECT chat_thread_id FROM messages WHERE parent_message_id IS NOT NULL);
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS plan TEXT DEFAULT 'free' NOT NULL
+  CHECK (plan IN ('free', 'pro', 'team', 'enterprise'));
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS processing_stage TEXT
+  CHECK (processing_stage IN ('downloading', 'extracting', 'chunking', 'embedding', 'done'));
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS chunks_total INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS chunks_processed INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS processing_error TEXT;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS metadata JSONB;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS embedding_provider TEXT DEFAULT 'openai' NOT NULL
+  CHECK (embedding_provider IN ('openai', 'local', 'fake'));
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+-- Everything embedded before providers existed came from OpenAI
+UPDATE document_chunks SET embedding_model = 'text-embedding-3-small'
+WHERE embedding_model IS NULL AND embedding IS NOT NULL;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS page_start INTEGER;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS page_end INTEGER;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS contextual_retrieval BOOLEAN DEFAULT false NOT NULL;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS generated_context TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_queries JSONB;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}' NOT NULL;
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS document_scope UUID[];
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS synopsis TEXT;
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS pinned BOOLEAN DEFAULT false NOT NULL;
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS archived BOOLEAN DEFAULT false NOT NULL;
+-- Newest message folded into chat_threads.summary; the summary only applies to branches through it
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS summarized_through_message_id UUID
+  REFERENCES messages(id) ON DELETE SET NULL;
+-- Anchor summaries written before the column existed at the newest message they covered
+UPDATE chat_threads t
+SET summarized_through_message_id = (
+  SELECT m.id FROM messages m
+  WHERE m.chat_thread_id = t.id AND m.created_at <= t.summarized_until
+  ORDER BY m.created_at DESC
+  LIMIT 1
+)
+WHERE t.summary IS NOT NULL AND t.summarized_until IS NOT NULL AND t.summarized_through_message_id IS NULL;
+-- Renumber siblings that concurrent regenerates/edits saved at the same position, before the unique index below
+UPDATE messages m
+SET sibling_index = renumbered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (
+    PARTITION BY chat_thread_id, parent_message_id ORDER BY sibling_index, created_at, id
+  ) - 1 AS position
+  FROM messages
+) renumbered
+WHERE m.id = renumbered.id AND m.sibling_index <> renumbered.position;
+-- New values for existing CHECK constraints (Postgres names inline column checks <table>_<column>_check)
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_processing_stage_check;
+ALTER TABLE documents ADD CONSTRAINT documents_processing_stage_check
+  CHECK (processing_stage IN ('downloading', 'extracting', 'chunking', 'contextualizing', 'embedding', 'done'));
+ALTER TABLE usage_events DROP CONSTRAINT IF EXISTS usage_events_kind_check;
+ALTER TABLE usage_events ADD CONSTRAINT usage_events_kind_check
+  CHECK (kind IN ('chat', 'summary', 'query_embedding', 'document_embedding', 'chunk_context', 'rerank', 'query_rewrite'));
+
+-- Drop duplicate chunks left by retried runs before chunk positions become unique
+DELETE FROM document_chunks a
+USING document_chunks b
+WHERE a.document_id = b.document_id
+  AND a.chunk_index = b.chunk_index
+  AND (a.created_at, a.id) < (b.created_at, b.id);
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS projects_user_id_idx ON projects(user_id);
 CREATE INDEX IF NOT EXISTS documents_project_id_idx ON documents(project_id);
 CREATE INDEX IF NOT EXISTS documents_user_id_idx ON documents(user_id);
 CREATE INDEX IF NOT EXISTS document_chunks_project_id_idx ON document_chunks(project_id);
 CREATE INDEX IF NOT EXISTS document_chunks_document_id_idx ON document_chunks(document_id);
+-- One row per chunk position, so re-processing upserts instead of duplicating
+CREATE UNIQUE INDEX IF NOT EXISTS document_chunks_document_id_chunk_index_idx
+  ON document_chunks(document_id, chunk_index);
 CREATE INDEX IF NOT EXISTS document_chunks_user_id_idx ON document_chunks(user_id);
 CREATE INDEX IF NOT EXISTS chat_threads_project_id_idx ON chat_threads(project_id);
 CREATE INDEX IF NOT EXISTS chat_threads_user_id_idx ON chat_threads(user_id);
 CREATE INDEX IF NOT EXISTS messages_chat_thread_id_idx ON messages(chat_thread_id);
+CREATE INDEX IF NOT EXISTS messages_parent_message_id_idx ON messages(parent_message_id);
+-- One message per position under a parent (roots keyed by the thread), so concurrent saves collide and retry
+CREATE UNIQUE INDEX IF NOT EXISTS messages_sibling_position_idx
+  ON messages(chat_thread_id, COALESCE(parent_message_id, chat_thread_id), sibling_index);
+CREATE INDEX IF NOT EXISTS usage_events_user_id_created_at_idx ON usage_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS document_jobs_status_run_after_idx ON document_jobs(status, run_after);
+-- At most one queued or running job per document
+CREATE UNIQUE INDEX IF NOT EXISTS document_jobs_active_document_idx ON document_jobs(document_id)
+  WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS document_chunks_content_tsv_idx ON document_chunks USING gin (content_tsv);
+CREATE INDEX IF NOT EXISTS messages_content_tsv_idx ON messages USING gin (content_tsv);
 CREATE INDEX IF NOT EXISTS document_chunks_embedding_idx ON document_chunks USING hnsw (embedding vector_cosine_ops) WITH (m = 24, ef_construction = 100);
 
 -- Enable Row Level Security
@@ -92,6 +260,8 @@ ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chat_threads ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_jobs ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies
 DROP POLICY IF EXISTS "Users can manage their own projects" ON projects;
@@ -102,6 +272,11 @@ DROP POLICY IF EXISTS "Users own their settings" ON user_settings;
 CREATE POLICY "Users own their settings" ON user_settings
   FOR ALL USING (user_id = auth.uid());
 
+-- RLS can't restrict columns: signed-in users may write every settings column except plan
+REVOKE INSERT, UPDATE ON user_settings FROM authenticated;
+GRANT INSERT (user_id, anthropic_api_key, preferred_model, updated_at) ON user_settings TO authenticated;
+GRANT UPDATE (user_id, anthropic_api_key, preferred_model, updated_at) ON user_settings TO authenticated;
+
 DROP POLICY IF EXISTS "Users can manage documents in their projects" ON documents;
 CREATE POLICY "Users can manage documents in their projects" ON documents
   FOR ALL USING (project_id IN (SELECT id FROM projects WHERE user_id = auth.uid()));
@@ -118,6 +293,16 @@ DROP POLICY IF EXISTS "Users can manage messages in their chat threads" ON messa
 CREATE POLICY "Users can manage messages in their chat threads" ON messages
   FOR ALL USING (chat_thread_id IN (SELECT id FROM chat_threads WHERE user_id = auth.uid()));
 
+-- Ledger rows are written with the service role only; users can read their own
+DROP POLICY IF EXISTS "Users can view their own usage" ON usage_events;
+CREATE POLICY "Users can view their own usage" ON usage_events
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Jobs are enqueued and claimed with the service role only; users can read their own
+DROP POLICY IF EXISTS "Users can view their own document jobs" ON document_jobs;
+CREATE POLICY "Users can view their own document jobs" ON document_jobs
+  FOR SELECT USING (user_id = auth.uid());
+
 
 -- Functions for updating timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -145,19 +330,29 @@ DROP TRIGGER IF EXISTS update_chat_threads_updated_at ON chat_threads;
 CREATE TRIGGER update_chat_threads_updated_at BEFORE UPDATE ON chat_threads
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
--- Function for vector similarity search (scoped by project_id)
+DROP TRIGGER IF EXISTS update_document_jobs_updated_at ON document_jobs;
+CREATE TRIGGER update_document_jobs_updated_at BEFORE UPDATE ON document_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Function for vector similarity search (scoped by project_id and embedding model)
+-- Older signatures are dropped first because CREATE OR REPLACE cannot change arguments or returned columns
+DROP FUNCTION IF EXISTS match_document_chunks(vector, float, int, uuid, uuid);
+DROP FUNCTION IF EXISTS match_document_chunks(vector, float, int, uuid, uuid, text);
 CREATE OR REPLACE FUNCTION match_document_chunks (
   query_embedding vector(1536),
   match_threshold float,
   match_count int,
   filter_user_id uuid,
-  filter_project_id uuid -- Added project_id filter
+  filter_project_id uuid, -- Added project_id filter
+  filter_embedding_model text,
+  filter_document_ids uuid[] DEFAULT NULL -- Limit to these documents; NULL searches the whole project
 )
 RETURNS TABLE (
   id uuid,
   document_id uuid,
   content text,
   context text,
+  chunk_index int,
   similarity float
 )
 LANGUAGE plpgsql
@@ -169,15 +364,304 @@ BEGIN
     dc.document_id,
     dc.content,
     dc.context,
+    dc.chunk_index,
     1 - (dc.embedding <=> query_embedding) AS similarity
   FROM
     document_chunks dc
   WHERE 
     dc.user_id = filter_user_id AND 
     dc.project_id = filter_project_id AND -- Scope by project
+    dc.embedding_model = filter_embedding_model AND
+    (filter_document_ids IS NULL OR dc.document_id = ANY(filter_document_ids)) AND
     1 - (dc.embedding <=> query_embedding) > match_threshold
   ORDER BY
     similarity DESC
   LIMIT match_count;
 END;
 $$;
+
+-- Hybrid search: full-text (tsvector) ranking fused with vector similarity via reciprocal rank fusion.
+-- Each side contributes weight / (rrf_k + rank); the vector side only keeps candidates above match_threshold,
+-- while lexical matches are kept regardless so exact identifiers and error codes still surface.
+-- Both sides only see chunks embedded by filter_embedding_model, so reported similarities are comparable.
+DROP FUNCTION IF EXISTS hybrid_match_document_chunks(text, vector, float, int, float, float, int, uuid, uuid);
+-- The return columns changed (page range), which CREATE OR REPLACE can't do in place
+DROP FUNCTION IF EXISTS hybrid_match_document_chunks(text, vector, float, int, float, float, int, uuid, uuid, text);
+CREATE OR REPLACE FUNCTION hybrid_match_document_chunks (
+  query_text text,
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  full_text_weight float,
+  semantic_weight float,
+  rrf_k int,
+  filter_user_id uuid,
+  filter_project_id uuid,
+  filter_embedding_model text,
+  filter_document_ids uuid[] DEFAULT NULL -- Limit to these documents; NULL searches the whole project
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  context text,
+  chunk_index int,
+  page_start int,
+  page_end int,
+  similarity float,
+  lexical_rank float,
+  score float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH semantic AS (
+    SELECT
+      dc.id,
+      ROW_NUMBER() OVER (ORDER BY dc.embedding <=> query_embedding) AS rank_ix
+    FROM document_chunks dc
+    WHERE
+      dc.user_id = filter_user_id AND
+      dc.project_id = filter_project_id AND
+      dc.embedding_model = filter_embedding_model AND
+      (filter_document_ids IS NULL OR dc.document_id = ANY(filter_document_ids)) AND
+      1 - (dc.embedding <=> query_embedding) > match_threshold
+    ORDER BY dc.embedding <=> query_embedding
+    LIMIT match_count * 4
+  ),
+  lexical AS (
+    SELECT
+      dc.id,
+      ts_rank_cd(dc.content_tsv, websearch_to_tsquery('english', query_text)) AS lexical_score,
+      ROW_NUMBER() OVER (
+        ORDER BY ts_rank_cd(dc.content_tsv, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM document_chunks dc
+    WHERE
+      dc.user_id = filter_user_id AND
+      dc.project_id = filter_project_id AND
+      dc.embedding_model = filter_embedding_model AND
+      (filter_document_ids IS NULL OR dc.document_id = ANY(filter_document_ids)) AND
+      dc.content_tsv @@ websearch_to_tsquery('english', query_text)
+    ORDER BY lexical_score DESC
+    LIMIT match_count * 4
+  ),
+  fused AS (
+    SELECT
+      COALESCE(semantic.id, lexical.id) AS id,
+      COALESCE(lexical.lexical_score, 0)::float AS lexical_rank,
+      (
+        COALESCE(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight +
+        COALESCE(1.0 / (rrf_k + lexical.rank_ix), 0.0) * full_text_weight
+      )::float AS score
+    FROM semantic
+    FULL OUTER JOIN lexical ON semantic.id = lexical.id
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.context,
+    dc.chunk_index,
+    dc.page_start,
+    dc.page_end,
+    (1 - (dc.embedding <=> query_embedding))::float AS similarity,
+    fused.lexical_rank,
+    fused.score
+  FROM fused
+  JOIN document_chunks dc ON dc.id = fused.id
+  ORDER BY fused.score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Chat history search across all of a user's projects: thread titles and message content.
+-- Title matches rank above message matches. Snippets come from ts_headline with matched terms wrapped
+-- in chr(2)/chr(3), which never occur in chat text, so the client can highlight them without parsing HTML.
+CREATE OR REPLACE FUNCTION search_chat_history (
+  search_query text,
+  filter_user_id uuid,
+  match_count int
+)
+RETURNS TABLE (
+  thread_id uuid,
+  thread_title text,
+  project_id uuid,
+  project_name text,
+  message_id uuid, -- NULL when the thread title matched
+  message_role text,
+  snippet text,
+  matched_at timestamptz,
+  rank float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  query tsquery := websearch_to_tsquery('english', search_query);
+  highlight text := format('StartSel=%s, StopSel=%s', chr(2), chr(3));
+BEGIN
+  RETURN QUERY
+  WITH hits AS (
+    SELECT
+      ct.id AS hit_thread_id,
+      NULL::uuid AS hit_message_id,
+      NULL::text AS hit_role,
+      COALESCE(ct.title, '') AS hit_text,
+      ct.updated_at AS hit_at,
+      (1 + ts_rank(to_tsvector('english', COALESCE(ct.title, '')), query))::float AS hit_rank
+    FROM chat_threads ct
+    WHERE
+      ct.user_id = filter_user_id AND
+      to_tsvector('english', COALESCE(ct.title, '')) @@ query
+    UNION ALL
+    SELECT
+      m.chat_thread_id,
+      m.id,
+      m.role,
+      m.content,
+      m.created_at,
+      ts_rank(m.content_tsv, query)::float
+    FROM messages m
+    JOIN chat_threads ct ON ct.id = m.chat_thread_id
+    WHERE
+      ct.user_id = filter_user_id AND
+      m.content_tsv @@ query
+    ORDER BY hit_rank DESC, hit_at DESC
+    LIMIT match_count
+  )
+  -- Headlines are expensive, so they are only built for the rows returned
+  SELECT
+    ct.id,
+    ct.title,
+    p.id,
+    p.name,
+    hits.hit_message_id,
+    hits.hit_role,
+    CASE
+      WHEN hits.hit_message_id IS NULL THEN ts_headline('english', hits.hit_text, query, highlight || ', HighlightAll=true')
+      ELSE ts_headline('english', hits.hit_text, query, highlight || ', MaxFragments=2, MinWords=8, MaxWords=20, FragmentDelimiter=" … "')
+    END,
+    hits.hit_at,
+    hits.hit_rank
+  FROM hits
+  JOIN chat_threads ct ON ct.id = hits.hit_thread_id
+  JOIN projects p ON p.id = ct.project_id
+  ORDER BY hits.hit_rank DESC, hits.hit_at DESC;
+END;
+$$;
+
+-- Usage ledger totals for /api/usage, one row per UTC day, project, kind and model. Summing in SQL
+-- keeps every event counted; selecting the rows would stop at PostgREST's row limit.
+CREATE OR REPLACE FUNCTION summarize_usage (
+  filter_user_id uuid,
+  since timestamptz,
+  filter_project_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  day date,
+  project_id uuid,
+  kind text,
+  model text,
+  input_tokens bigint,
+  output_tokens bigint,
+  cache_creation_input_tokens bigint,
+  cache_read_input_tokens bigint
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    (date_trunc('day', ue.created_at AT TIME ZONE 'UTC'))::date,
+    ue.project_id,
+    ue.kind,
+    ue.model,
+    SUM(ue.input_tokens)::bigint,
+    SUM(ue.output_tokens)::bigint,
+    SUM(ue.cache_creation_input_tokens)::bigint,
+    SUM(ue.cache_read_input_tokens)::bigint
+  FROM usage_events ue
+  WHERE
+    ue.user_id = filter_user_id AND
+    ue.created_at >= since AND
+    (filter_project_id IS NULL OR ue.project_id = filter_project_id)
+  GROUP BY 1, ue.project_id, ue.kind, ue.model
+  ORDER BY 1;
+$$;
+
+-- Document job queue (called by the worker with the service role)
+-- Claims the next due job, or a running job whose lease expired. SKIP LOCKED lets several workers
+-- poll at once without claiming the same job.
+CREATE OR REPLACE FUNCTION claim_document_job (
+  worker_id text,
+  lease_seconds int
+)
+RETURNS SETOF document_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE document_jobs
+  SET
+    status = 'running',
+    attempts = document_jobs.attempts + 1,
+    locked_by = worker_id,
+    lease_expires_at = NOW() + make_interval(secs => lease_seconds)
+  WHERE document_jobs.id = (
+    SELECT j.id
+    FROM document_jobs j
+    WHERE (j.status = 'queued' AND j.run_after <= NOW())
+      OR (j.status = 'running' AND j.lease_expires_at < NOW())
+    ORDER BY j.run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING document_jobs.*;
+END;
+$$;
+
+-- Extends a lease; returns false when the worker no longer holds the job
+CREATE OR REPLACE FUNCTION heartbeat_document_job (
+  job_id uuid,
+  worker_id text,
+  lease_seconds int
+)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE document_jobs
+  SET lease_expires_at = NOW() + make_interval(secs => lease_seconds)
+  WHERE id = job_id AND locked_by = worker_id AND status = 'running';
+  RETURN FOUND;
+END;
+$$;
+
+-- Queues a job for documents stuck in pending/processing without an active job, e.g. uploads from
+-- before the queue existed or whose enqueue failed. Returns how many were queued.
+CREATE OR REPLACE FUNCTION enqueue_stale_document_jobs (
+  stale_after_seconds int
+)
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  queued_count int;
+BEGIN
+  INSERT INTO document_jobs (document_id, user_id, project_id)
+  SELECT d.id, d.user_id, d.project_id
+  FROM documents d
+  WHERE d.status IN ('pending', 'processing')
+    AND d.updated_at < NOW() - make_interval(secs => stale_after_seconds)
+    AND NOT EXISTS (
+      SELECT 1 FROM document_jobs j
+      WHERE j.document_id = d.id AND j.status IN ('queued', 'running')
+    )
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS queued_count = ROW_COUNT;
+  RETURN queued_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_document_job(text, int) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION heartbeat_document_job(uuid, text, int) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_stale_document_jobs(int) FROM PUBLIC, anon, authenticated;
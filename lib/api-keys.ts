@@ -0,0 +1,28 @@
+import { decryptApiKey } from "@/lib/encryption"
+
+// The user's own Anthropic key from user_settings, decrypted. Used by chat and, with the admin
+// client, by ingestion when a project has contextual retrieval enabled. Null when missing or unreadable.
+export async function getAnthropicApiKey(userId: string, supabaseClient: any): Promise<string | null> {
+  const { data: userSettings, error } = await supabaseClient
+    .from("user_settings")
+    .select("anthropic_api_key")
+    .eq("user_id", userId)
+    .single()
+
+  if (error && error.code !== "PGRST116") {
+    console.error("Error fetching API key from user_settings:", error)
+    return null
+  }
+  if (!userSettings?.anthropic_api_key) {
+    console.warn("Anthropic API key not found for user:", userId)
+    return null
+  }
+
+  try {
+    const decryptedKey = await decryptApiKey(userSettings.anthropic_api_key)
+    return decryptedKey
+  } catch (decryptionError) {
+    console.error("Failed to decrypt Anthropic API key:", decryptionError)
+    return null
+  }
+}
@@ -0,0 +1,76 @@
+// Picks the chunks that go into the chat prompt from reranked candidates: best score first, skipping
+// near-duplicates (neighbouring chunks repeat the overlap the chunker carries between them, and the
+// same file may be uploaded twice) and anything that would push the context past its token budget.
+
+import { estimateTokens } from "@/lib/chat/models"
+
+export type SelectionOutcome = "selected" | "duplicate" | "over_budget" | "not_needed"
+
+export interface SelectionDecision<T> {
+  candidate: T
+  score: number
+  outcome: SelectionOutcome
+}
+
+interface SelectContextOptions {
+  maxChunks: number
+  tokenBudget: number
+}
+
+const SHINGLE_WORDS = 5
+// Share of the smaller chunk's shingles found in an already selected chunk above which it adds nothing new
+const DUPLICATE_CONTAINMENT = 0.7
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().split(/\W+/).filter(Boolean)
+  const result = new Set<string>()
+  if (words.length < SHINGLE_WORDS) {
+    result.add(words.join(" "))
+    return result
+  }
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_WORDS).join(" "))
+  }
+  return result
+}
+
+function containment(a: Set<string>, b: Set<string>): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a]
+  if (smaller.size === 0) return 0
+  let shared = 0
+  for (const shingle of smaller) {
+    if (larger.has(shingle)) shared++
+  }
+  return shared / smaller.size
+}
+
+// Returns every candidate with what happened to it (for debug output), best score first
+export function selectContextChunks<T extends { content: string }>(
+  candidates: T[],
+  scores: number[],
+  options: SelectContextOptions,
+): SelectionDecision<T>[] {
+  const ranked = candidates
+    .map((candidate, i) => ({ candidate, score: scores[i] ?? 0 }))
+    .sort((a, b) => b.score - a.score)
+
+  const selectedShingles: Set<string>[] = []
+  let usedTokens = 0
+  return ranked.map(({ candidate, score }) => {
+    if (selectedShingles.length >= options.maxChunks) {
+      return { candidate, score, outcome: "not_needed" as const }
+    }
+    const candidateShingles = shingles(candidate.content)
+    if (selectedShingles.some((selected) => containment(selected, candidateShingles) >= DUPLICATE_CONTAINMENT)) {
+      return { candidate, score, outcome: "duplicate" as const }
+    }
+    const tokens = estimateTokens(candidate.content)
+    // The best chunk always goes in, even when it alone exceeds the budget
+    if (selectedShingles.length > 0 && usedTokens + tokens > options.tokenBudget) {
+      return { candidate, score, outcome: "over_budget" as const }
+    }
+    selectedShingles.push(candidateShingles)
+    usedTokens += tokens
+    return { candidate, score, outcome: "selected" as const }
+  })
+}
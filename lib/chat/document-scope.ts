@@ -0,0 +1,38 @@
+// Chat can be limited to a subset of the project's documents: per thread (chat_threads.document_scope)
+// or for a single message (documentIds in the POST /api/chat body). Null means the whole project.
+
+const MAX_SCOPED_DOCUMENTS = 200
+
+// Validates a client-sent selection against the project's documents. An empty selection is treated as
+// no scope rather than "search nothing".
+export async function resolveDocumentScope(
+  supabaseClient: any,
+  userId: string,
+  projectId: string,
+  input: unknown,
+): Promise<{ documentIds: string[] | null; error?: undefined } | { documentIds?: undefined; error: string }> {
+  if (input === null) return { documentIds: null }
+  if (!Array.isArray(input) || input.some((id) => typeof id !== "string")) {
+    return { error: "documentIds must be an array of document ids or null" }
+  }
+  const documentIds = [...new Set(input as string[])]
+  if (documentIds.length === 0) return { documentIds: null }
+  if (documentIds.length > MAX_SCOPED_DOCUMENTS) {
+    return { error: `At most ${MAX_SCOPED_DOCUMENTS} documents can be selected` }
+  }
+
+  const { data: documents, error } = await supabaseClient
+    .from("documents")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .in("id", documentIds)
+  if (error) {
+    console.error("Error verifying scoped documents:", error)
+    return { error: "Failed to verify the selected documents" }
+  }
+  if ((documents || []).length !== documentIds.length) {
+    return { error: "Some selected documents do not exist in this project" }
+  }
+  return { documentIds }
+}
@@ -0,0 +1,156 @@
+// Server-side conversation memory for /api/chat.
+// Recent turns are replayed verbatim within a token budget; turns that no longer fit are folded
+// into a rolling summary stored on chat_threads, so long threads keep context without overflowing.
+
+import Anthropic from "@anthropic-ai/sdk"
+import { UTILITY_MODEL, estimateTokens, getContextWindow } from "@/lib/chat/models"
+import { recordUsage } from "@/lib/usage/ledger"
+
+// Upper bound on replayed history regardless of model window, to keep per-message cost predictable
+const MAX_HISTORY_TOKENS = 50000
+
+// Largest transcript handed to the summarizer in one call (characters, newest turns kept)
+const MAX_SUMMARY_INPUT_CHARS = 120000
+
+interface StoredTurn {
+  id: string
+  role: string
+  content: string
+  created_at: string
+}
+
+interface ConversationMemoryOptions {
+  supabase: any
+  anthropic: Anthropic
+  userId: string
+  projectId: string
+  chatThreadId: string
+  turns: StoredTurn[] // Active branch up to the new prompt's parent, oldest first
+  summary: string | null
+  summarizedThroughMessageId: string | null // Newest message folded into summary
+  model: string
+  reservedTokens: number // System prompt, new user message and output allowance
+}
+
+export interface ConversationMemory {
+  history: Anthropic.Messages.MessageParam[]
+  summary: string | null
+}
+
+async function summarizeTurns(anthropic: Anthropic, previousSummary: string | null, turns: StoredTurn[]) {
+  let transcript = turns.map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`).join("\n\n")
+  if (transcript.length > MAX_SUMMARY_INPUT_CHARS) {
+    transcript = transcript.slice(-MAX_SUMMARY_INPUT_CHARS)
+  }
+
+  const response = await anthropic.messages.create({
+    model: UTILITY_MODEL,
+    max_tokens: 1000,
+    system:
+      "You maintain a running summary of a conversation between a user and an AI assistant. " +
+      "Merge the existing summary with the new turns into one concise summary. Keep facts, decisions, " +
+      "names, numbers and open questions the assistant will need later. Reply with the summary only.",
+    messages: [
+      {
+        role: "user",
+        content: `Existing summary:\n${previousSummary || "(none)"}\n\nNew turns:\n${transcript}`,
+      },
+    ],
+  })
+
+  return {
+    summary: response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("")
+      .trim(),
+    usage: response.usage,
+  }
+}
+
+// Anthropic expects alternating roles; collapse runs left behind by failed saves
+function toAlternatingMessages(turns: StoredTurn[]): Anthropic.Messages.MessageParam[] {
+  const messages: Anthropic.Messages.MessageParam[] = []
+  for (const turn of turns) {
+    const role = turn.role === "assistant" ? "assistant" : "user"
+    const last = messages[messages.length - 1]
+    if (last && last.role === role) {
+      last.content = `${last.content}\n\n${turn.content}`
+    } else {
+      messages.push({ role, content: turn.content })
+    }
+  }
+  return messages
+}
+
+export async function loadConversationMemory({
+  supabase,
+  anthropic,
+  userId,
+  projectId,
+  chatThreadId,
+  turns,
+  summary: threadSummary,
+  summarizedThroughMessageId,
+  model,
+  reservedTokens,
+}: ConversationMemoryOptions): Promise<ConversationMemory> {
+  // The summary covers one branch's prefix, ending at summarizedThroughMessageId. It only applies when
+  // that message is on this branch's path; a branch that forked earlier (an edit or regeneration) is
+  // replayed from its own turns, and its overflow is summarized from scratch.
+  const summarizedThrough = threadSummary ? turns.findIndex((turn) => turn.id === summarizedThroughMessageId) : -1
+  const summary = summarizedThrough >= 0 ? threadSummary : null
+
+  const storedTurns = turns.slice(summarizedThrough + 1).filter((turn) => turn.content.trim() !== "")
+  const budget =
+    Math.min(MAX_HISTORY_TOKENS, getContextWindow(model) - reservedTokens) - (summary ? estimateTokens(summary) : 0)
+
+  // Keep the newest turns that fit, walking backwards
+  let keptFrom = storedTurns.length
+  let usedTokens = 0
+  while (keptFrom > 0) {
+    const turnTokens = estimateTokens(storedTurns[keptFrom - 1].content)
+    if (usedTokens + turnTokens > budget) break
+    usedTokens += turnTokens
+    keptFrom--
+  }
+  // Replayed history has to open with a user turn
+  while (keptFrom < storedTurns.length && storedTurns[keptFrom].role !== "user") {
+    keptFrom++
+  }
+
+  const overflow = storedTurns.slice(0, keptFrom)
+  const kept = storedTurns.slice(keptFrom)
+  let currentSummary = summary
+
+  if (overflow.length > 0) {
+    try {
+      const result = await summarizeTurns(anthropic, summary, overflow)
+      currentSummary = result.summary
+      await recordUsage({
+        userId,
+        projectId,
+        model: UTILITY_MODEL,
+        kind: "summary",
+        inputTokens: result.usage.input_tokens,
+        outputTokens: result.usage.output_tokens,
+      })
+      const { error: updateError } = await supabase
+        .from("chat_threads")
+        .update({
+          summary: currentSummary,
+          summarized_through_message_id: overflow[overflow.length - 1].id,
+          summarized_until: overflow[overflow.length - 1].created_at,
+        })
+        .eq("id", chatThreadId)
+      if (updateError) {
+        console.error("[Memory] Failed to store thread summary:", updateError)
+      }
+      console.log(`[Memory] Folded ${overflow.length} turns into the thread summary`)
+    } catch (summaryError) {
+      // Dropping the overflow is still within budget; the summary just won't cover those turns
+      console.error("[Memory] Failed to summarize older turns:", summaryError)
+    }
+  }
+
+  return { history: toAlternatingMessages(kept), summary: currentSummary }
+}
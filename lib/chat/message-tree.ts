@@ -0,0 +1,69 @@
+// Messages in a thread form a tree: regenerating a reply or editing a prompt adds a sibling under the
+// same parent. The thread's active_leaf_id picks which root-to-leaf path is shown and sent to Claude.
+
+interface TreeNode {
+  id: string
+  parent_message_id: string | null
+  sibling_index: number
+  created_at: string
+}
+
+export type WithSiblings<T> = T & { siblingIds: string[] }
+
+function byBranchOrder(a: TreeNode, b: TreeNode) {
+  return a.sibling_index - b.sibling_index || a.created_at.localeCompare(b.created_at)
+}
+
+function groupChildren<T extends TreeNode>(messages: T[]): Map<string | null, T[]> {
+  const children = new Map<string | null, T[]>()
+  for (const message of messages) {
+    const siblings = children.get(message.parent_message_id) || []
+    siblings.push(message)
+    children.set(message.parent_message_id, siblings)
+  }
+  for (const siblings of children.values()) {
+    siblings.sort(byBranchOrder)
+  }
+  return children
+}
+
+// Root-to-message path ending at messageId (empty when messageId is null or unknown)
+export function getAncestorPath<T extends TreeNode>(messages: T[], messageId: string | null): T[] {
+  const byId = new Map(messages.map((message) => [message.id, message]))
+  const path: T[] = []
+  let current = messageId ? byId.get(messageId) : undefined
+  while (current && path.length <= messages.length) {
+    path.unshift(current)
+    current = current.parent_message_id ? byId.get(current.parent_message_id) : undefined
+  }
+  return path
+}
+
+// Follows the newest child at each level, so switching to a branch lands on its latest reply
+export function findLatestLeaf<T extends TreeNode>(messages: T[], fromId: string): string {
+  const children = groupChildren(messages)
+  let leafId = fromId
+  let next = children.get(leafId)
+  while (next && next.length > 0) {
+    leafId = next[next.length - 1].id
+    next = children.get(leafId)
+  }
+  return leafId
+}
+
+// The displayed conversation: the path to the active leaf, each message annotated with its sibling ids
+export function getActivePath<T extends TreeNode>(messages: T[], activeLeafId: string | null): WithSiblings<T>[] {
+  if (messages.length === 0) return []
+
+  let leafId = activeLeafId && messages.some((message) => message.id === activeLeafId) ? activeLeafId : null
+  if (!leafId) {
+    const newest = messages.reduce((latest, message) => (message.created_at > latest.created_at ? message : latest))
+    leafId = newest.id
+  }
+
+  const children = groupChildren(messages)
+  return getAncestorPath(messages, leafId).map((message) => ({
+    ...message,
+    siblingIds: (children.get(message.parent_message_id) || [message]).map((sibling) => sibling.id),
+  }))
+}
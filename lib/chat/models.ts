@@ -0,0 +1,36 @@
+// Claude models offered in settings, with the limits the chat route budgets against
+
+export const DEFAULT_CHAT_MODEL = "claude-3-5-sonnet-20241022"
+
+// Cheapest model, used for background work such as summarizing old turns
+export const UTILITY_MODEL = "claude-3-haiku-20240307"
+
+export const MAX_OUTPUT_TOKENS = 4000
+
+// Models a chat thread can be switched to
+export const CHAT_MODELS: { id: string; label: string }[] = [
+  { id: "claude-3-opus-20240229", label: "Claude 3 Opus" },
+  { id: "claude-3-5-sonnet-20241022", label: "Claude 3.5 Sonnet" },
+  { id: "claude-3-haiku-20240307", label: "Claude 3 Haiku" },
+]
+
+export function isChatModel(value: unknown): value is string {
+  return typeof value === "string" && CHAT_MODELS.some((model) => model.id === value)
+}
+
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "claude-3-opus-20240229": 200000,
+  "claude-3-5-sonnet-20241022": 200000,
+  "claude-3-haiku-20240307": 200000,
+}
+
+const DEFAULT_CONTEXT_WINDOW = 200000
+
+export function getContextWindow(model: string): number {
+  return MODEL_CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW
+}
+
+// Rough Claude token estimate (~4 characters per token); the route only needs it for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
@@ -0,0 +1,119 @@
+// Turns the latest prompt into what retrieval actually searches for. Follow-ups like "what about the
+// second one?" only make sense next to the previous turns, so one cheap utility model call rewrites
+// them into a standalone query, optionally fanning out into sub-queries (multi_query) or a
+// hypothetical answer whose embedding sits closer to the passages than the question's (HyDE).
+
+import type Anthropic from "@anthropic-ai/sdk"
+import type { SearchQuery } from "@/types/database"
+import { UTILITY_MODEL } from "@/lib/chat/models"
+
+export type QueryMode = "raw" | "rewrite" | "multi_query" | "hyde"
+
+export const QUERY_MODES: QueryMode[] = ["raw", "rewrite", "multi_query", "hyde"]
+
+export const DEFAULT_QUERY_MODE: QueryMode = "rewrite"
+
+export const QUERY_REWRITE_MODEL = UTILITY_MODEL
+
+export function isQueryMode(value: unknown): value is QueryMode {
+  return typeof value === "string" && (QUERY_MODES as string[]).includes(value)
+}
+
+interface HistoryTurn {
+  role: string
+  content: string
+}
+
+export interface QueryRewriteResult {
+  queries: SearchQuery[] // The standalone query first
+  inputTokens: number
+  outputTokens: number
+}
+
+// Enough history to resolve references without paying for the whole thread
+const MAX_HISTORY_TURNS = 6
+const MAX_TURN_CHARS = 1000
+const MAX_SUB_QUERIES = 3
+
+const MODE_INSTRUCTIONS: Record<Exclude<QueryMode, "raw">, string> = {
+  rewrite: 'Reply with a JSON object only: {"query": "..."}.',
+  multi_query:
+    `If the question asks about several things, also break it into at most ${MAX_SUB_QUERIES} narrower search ` +
+    'queries. Reply with a JSON object only: {"query": "...", "subQueries": ["..."]}.',
+  hyde:
+    "Also write a short passage (three or four sentences) that could plausibly appear in a document answering " +
+    'the question; it is used for search only, so guess specifics freely. Reply with a JSON object only: ' +
+    '{"query": "...", "hypothetical": "..."}.',
+}
+
+// Whether the mode needs a model call for this turn; plain rewriting has nothing to resolve without history
+export function needsQueryRewrite(mode: QueryMode, history: HistoryTurn[]): boolean {
+  if (mode === "raw") return false
+  return mode !== "rewrite" || history.length > 0
+}
+
+export async function rewriteQuery(
+  anthropic: Anthropic,
+  message: string,
+  history: HistoryTurn[],
+  mode: Exclude<QueryMode, "raw">,
+): Promise<QueryRewriteResult> {
+  const transcript = history
+    .slice(-MAX_HISTORY_TURNS)
+    .map((turn) => `${turn.role === "assistant" ? "Assistant" : "User"}: ${turn.content.slice(0, MAX_TURN_CHARS)}`)
+    .join("\n\n")
+  const response = await anthropic.messages.create({
+    model: QUERY_REWRITE_MODEL,
+    max_tokens: mode === "hyde" ? 400 : 200,
+    system:
+      "You write search queries for a document search engine. Rewrite the user's latest message into one " +
+      "standalone query that can be understood without the conversation: resolve pronouns and references, " +
+      "keep names, numbers and technical terms, and drop pleasantries. " +
+      MODE_INSTRUCTIONS[mode],
+    messages: [
+      {
+        role: "user",
+        content: `${transcript ? `<conversation>\n${transcript}\n</conversation>\n\n` : ""}Latest message: ${message}`,
+      },
+    ],
+  })
+
+  const text = response.content.map((block) => (block.type === "text" ? block.text : "")).join("")
+  const parsed = JSON.parse(text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1))
+  const query = typeof parsed?.query === "string" ? parsed.query.trim() : ""
+  if (!query) {
+    throw new Error(`Expected a rewritten query, got: ${text.slice(0, 200)}`)
+  }
+
+  const queries: SearchQuery[] = [{ kind: "standalone", text: query }]
+  if (mode === "multi_query" && Array.isArray(parsed.subQueries)) {
+    const subQueries = parsed.subQueries
+      .filter((subQuery: unknown): subQuery is string => typeof subQuery === "string" && subQuery.trim() !== "")
+      .map((subQuery: string) => subQuery.trim())
+      .filter((subQuery: string) => subQuery.toLowerCase() !== query.toLowerCase())
+      .slice(0, MAX_SUB_QUERIES)
+    queries.push(...subQueries.map((subQuery: string) => ({ kind: "sub_query" as const, text: subQuery })))
+  }
+  if (mode === "hyde" && typeof parsed.hypothetical === "string" && parsed.hypothetical.trim()) {
+    queries.push({ kind: "hypothetical", text: parsed.hypothetical.trim() })
+  }
+  return { queries, inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+}
+
+// Reciprocal rank fusion of the result lists of several queries: chunks found by more than one query,
+// or ranked high by any, come first. Keeps the first copy of each chunk.
+export function fuseResultLists<T extends { id: string }>(lists: T[][], k: number, limit: number): T[] {
+  if (lists.length === 1) return lists[0].slice(0, limit)
+  const fused = new Map<string, { item: T; score: number }>()
+  for (const list of lists) {
+    list.forEach((item, rank) => {
+      const entry = fused.get(item.id) ?? { item, score: 0 }
+      entry.score += 1 / (k + rank + 1)
+      fused.set(item.id, entry)
+    })
+  }
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.item)
+}
@@ -0,0 +1,84 @@
+import type { ProjectRetrievalSettings } from "@/types/database"
+import { DEFAULT_RERANKER, RERANKER_IDS, isRerankerId } from "@/lib/reranking/reranker"
+import { DEFAULT_QUERY_MODE, QUERY_MODES, isQueryMode } from "@/lib/chat/query-rewriting"
+
+export type RetrievalSettings = Required<ProjectRetrievalSettings>
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  matchThreshold: 0.7,
+  matchCount: 5,
+  fullTextWeight: 1,
+  semanticWeight: 1,
+  rrfK: 50,
+  candidateCount: 30,
+  contextTokenBudget: 4000,
+  reranker: DEFAULT_RERANKER,
+  queryMode: DEFAULT_QUERY_MODE,
+}
+
+type NumericSetting = Exclude<keyof RetrievalSettings, "reranker" | "queryMode">
+
+// Allowed range for each numeric setting; values outside are rejected by the API
+const SETTING_BOUNDS: Record<NumericSetting, { min: number; max: number; integer?: boolean }> = {
+  matchThreshold: { min: 0, max: 1 },
+  matchCount: { min: 1, max: 20, integer: true },
+  fullTextWeight: { min: 0, max: 10 },
+  semanticWeight: { min: 0, max: 10 },
+  rrfK: { min: 1, max: 200, integer: true },
+  candidateCount: { min: 1, max: 100, integer: true },
+  contextTokenBudget: { min: 500, max: 50000, integer: true },
+}
+
+// Merges a project's stored overrides over the defaults
+export function resolveRetrievalSettings(stored: ProjectRetrievalSettings | null | undefined): RetrievalSettings {
+  return { ...DEFAULT_RETRIEVAL_SETTINGS, ...(stored || {}) }
+}
+
+// Validates a client payload; returns the sanitized settings or an error message
+export function parseRetrievalSettings(
+  input: unknown,
+): { settings: ProjectRetrievalSettings; error?: undefined } | { settings?: undefined; error: string } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: "Retrieval settings must be an object" }
+  }
+
+  const settings: ProjectRetrievalSettings = {}
+  for (const key of Object.keys(SETTING_BOUNDS) as NumericSetting[]) {
+    const bounds = SETTING_BOUNDS[key]
+    const value = (input as Record<string, unknown>)[key]
+    if (value === undefined || value === null) continue
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return { error: `${key} must be a number` }
+    }
+    if (value < bounds.min || value > bounds.max) {
+      return { error: `${key} must be between ${bounds.min} and ${bounds.max}` }
+    }
+    if (bounds.integer && !Number.isInteger(value)) {
+      return { error: `${key} must be a whole number` }
+    }
+    settings[key] = value
+  }
+
+  const reranker = (input as Record<string, unknown>).reranker
+  if (reranker !== undefined && reranker !== null) {
+    if (!isRerankerId(reranker)) {
+      return { error: `reranker must be one of ${RERANKER_IDS.join(", ")}` }
+    }
+    settings.reranker = reranker
+  }
+
+  const queryMode = (input as Record<string, unknown>).queryMode
+  if (queryMode !== undefined && queryMode !== null) {
+    if (!isQueryMode(queryMode)) {
+      return { error: `queryMode must be one of ${QUERY_MODES.join(", ")}` }
+    }
+    settings.queryMode = queryMode
+  }
+
+  if (settings.fullTextWeight === 0 && settings.semanticWeight === 0) {
+    return { error: "At least one of fullTextWeight and semanticWeight must be greater than 0" }
+  }
+
+  return { settings }
+}
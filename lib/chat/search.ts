@@ -0,0 +1,29 @@
+// Chat history search (GET /api/search, backed by the search_chat_history RPC)
+
+// ts_headline wraps matched terms in these control characters (see database-schema.sql)
+export const SNIPPET_HIGHLIGHT_START = "\u0002"
+export const SNIPPET_HIGHLIGHT_END = "\u0003"
+
+export const MIN_SEARCH_QUERY_LENGTH = 2
+export const DEFAULT_SEARCH_LIMIT = 20
+export const MAX_SEARCH_LIMIT = 50
+
+export interface SnippetPart {
+  text: string
+  highlighted: boolean
+}
+
+// Splits a snippet into plain and matched runs for rendering
+export function splitHighlightedSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = []
+  for (const [i, segment] of snippet.split(SNIPPET_HIGHLIGHT_START).entries()) {
+    const end = segment.indexOf(SNIPPET_HIGHLIGHT_END)
+    if (i === 0 || end === -1) {
+      if (segment) parts.push({ text: segment, highlighted: false })
+      continue
+    }
+    parts.push({ text: segment.slice(0, end), highlighted: true })
+    if (end + 1 < segment.length) parts.push({ text: segment.slice(end + 1), highlighted: false })
+  }
+  return parts
+}
@@ -0,0 +1,8 @@
+import type { MessageSource } from "@/types/database"
+
+// "p. 12" or "pp. 12-14" for sources from paginated documents, otherwise null
+export function formatSourcePages(source: Pick<MessageSource, "pageStart" | "pageEnd">): string | null {
+  const { pageStart, pageEnd } = source
+  if (pageStart == null) return null
+  return pageEnd == null || pageEnd === pageStart ? `p. ${pageStart}` : `pp. ${pageStart}-${pageEnd}`
+}
@@ -0,0 +1,77 @@
+// Server-Sent Events protocol spoken by POST /api/chat.
+// Shared by the route (encoding) and ChatInterface (parsing), so both sides agree on event shapes.
+
+import type { MessageSource, SearchQuery } from "@/types/database"
+import type { TokenCounts } from "@/lib/usage/pricing"
+
+export type ChatUsage = TokenCounts
+
+export type ChatStreamEvent =
+  | { type: "message_start"; userMessageId: string | null; model: string }
+  | { type: "text_delta"; text: string }
+  | { type: "search_queries"; queries: SearchQuery[] }
+  | { type: "sources"; sources: MessageSource[] }
+  | { type: "usage"; usage: ChatUsage }
+  | { type: "message_saved"; assistantMessageId: string }
+  | { type: "thread_updated"; title?: string; synopsis?: string } // May follow "done"
+  | { type: "error"; message: string }
+  | { type: "done" }
+
+export const CHAT_STREAM_CONTENT_TYPE = "text/event-stream; charset=utf-8"
+
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  const { type, ...payload } = event
+  return `event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`
+}
+
+function decodeChatEvent(rawEvent: string): ChatStreamEvent | null {
+  let type = ""
+  const dataLines: string[] = []
+
+  for (const line of rawEvent.split("\n")) {
+    if (line.startsWith("event:")) {
+      type = line.slice(6).trim()
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart())
+    }
+  }
+
+  if (!type) return null
+
+  try {
+    const payload = dataLines.length > 0 ? JSON.parse(dataLines.join("\n")) : {}
+    return { type, ...payload } as ChatStreamEvent
+  } catch (error) {
+    console.error("Failed to parse chat stream event:", error)
+    return null
+  }
+}
+
+// Reads an SSE response body and yields one typed event per "\n\n"-terminated block
+export async function* readChatEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n")
+
+      let boundary = buffer.indexOf("\n\n")
+      while (boundary !== -1) {
+        const event = decodeChatEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (event) yield event
+        boundary = buffer.indexOf("\n\n")
+      }
+    }
+
+    const trailingEvent = buffer.trim() ? decodeChatEvent(buffer) : null
+    if (trailingEvent) yield trailingEvent
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,112 @@
+// Thread titles and synopses for the thread list. New threads start as "New Chat"; after the first
+// exchange the utility model names them, and the synopsis is refreshed every few replies. Titles the
+// user has set are never overwritten.
+
+import type Anthropic from "@anthropic-ai/sdk"
+import { UTILITY_MODEL } from "@/lib/chat/models"
+import { recordUsage } from "@/lib/usage/ledger"
+
+export const DEFAULT_THREAD_TITLE = "New Chat"
+
+export const MAX_THREAD_TITLE_LENGTH = 200
+
+// Replies between synopsis refreshes
+const SYNOPSIS_INTERVAL = 4
+// Newest part of the conversation the model sees (characters)
+const MAX_TRANSCRIPT_CHARS = 12000
+const MAX_GENERATED_TITLE_LENGTH = 80
+
+interface Turn {
+  role: string
+  content: string
+}
+
+interface ThreadMetadataOptions {
+  supabase: any
+  anthropic: Anthropic
+  userId: string
+  projectId: string
+  chatThreadId: string
+  title: string | null
+  synopsis: string | null
+  turns: Turn[] // Active branch including the reply just saved, oldest first
+}
+
+export interface ThreadMetadataUpdate {
+  title?: string
+  synopsis?: string
+}
+
+export function isDefaultThreadTitle(title: string | null): boolean {
+  return !title || title === DEFAULT_THREAD_TITLE
+}
+
+// Generates whatever is due and saves it; null when nothing was due or generation failed
+export async function refreshThreadMetadata({
+  supabase,
+  anthropic,
+  userId,
+  projectId,
+  chatThreadId,
+  title,
+  synopsis,
+  turns,
+}: ThreadMetadataOptions): Promise<ThreadMetadataUpdate | null> {
+  const replies = turns.filter((turn) => turn.role === "assistant").length
+  const needsTitle = isDefaultThreadTitle(title)
+  const needsSynopsis = !synopsis || replies % SYNOPSIS_INTERVAL === 0
+  if (replies === 0 || (!needsTitle && !needsSynopsis)) return null
+
+  let transcript = turns
+    .map((turn) => `${turn.role === "assistant" ? "Assistant" : "User"}: ${turn.content}`)
+    .join("\n\n")
+  if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+    transcript = transcript.slice(-MAX_TRANSCRIPT_CHARS)
+  }
+
+  const replyFormat = needsTitle
+    ? '{"title": "...", "synopsis": "..."}. The title is at most six words, without quotes or a trailing period. '
+    : '{"synopsis": "..."}. '
+  try {
+    const response = await anthropic.messages.create({
+      model: UTILITY_MODEL,
+      max_tokens: 200,
+      system:
+        `You label conversations for a chat history list. Reply with a JSON object only: ${replyFormat}` +
+        "The synopsis is one or two sentences on what the conversation covers so far.",
+      messages: [{ role: "user", content: `<conversation>\n${transcript}\n</conversation>` }],
+    })
+    await recordUsage({
+      userId,
+      projectId,
+      model: UTILITY_MODEL,
+      kind: "summary",
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    })
+
+    const text = response.content.map((block) => (block.type === "text" ? block.text : "")).join("")
+    const parsed = JSON.parse(text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1))
+    const update: ThreadMetadataUpdate = {}
+    if (needsTitle && typeof parsed.title === "string" && parsed.title.trim()) {
+      update.title = parsed.title.trim().replace(/^["']|["'.]$/g, "").slice(0, MAX_GENERATED_TITLE_LENGTH)
+    }
+    if (typeof parsed.synopsis === "string" && parsed.synopsis.trim()) {
+      update.synopsis = parsed.synopsis.trim()
+    }
+    if (!update.title && !update.synopsis) return null
+
+    let query = supabase.from("chat_threads").update(update).eq("id", chatThreadId)
+    // A rename that landed while the model was busy wins over the generated title
+    if (update.title) query = query.or(`title.is.null,title.eq."${DEFAULT_THREAD_TITLE}"`)
+    const { error } = await query
+    if (error) {
+      console.error("Failed to save thread title/synopsis:", error)
+      return null
+    }
+    return update
+  } catch (error) {
+    console.error("Thread title/synopsis generation failed:", error)
+    return null
+  }
+}
@@ -0,0 +1,127 @@
+// PDF rendering of a thread export (active branch), with pdf-lib's built-in Helvetica so no font
+// files have to ship with the app. Markdown in messages is printed as written.
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib"
+import {
+  formatExportedSource,
+  formatExportedUsage,
+  getExportedActivePath,
+  type ThreadExport,
+} from "@/lib/chat/transcript"
+
+const PAGE_WIDTH = 595.28 // A4
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const MUTED = rgb(0.4, 0.4, 0.4)
+
+// The standard fonts only cover Windows-1252; anything else prints as "?"
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ"
+
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/\t/g, "    "))
+    .map((char) => {
+      const code = char.charCodeAt(0)
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char)) {
+        return char
+      }
+      return "?"
+    })
+    .join("")
+}
+
+// Splits a paragraph into lines that fit the content width, breaking overlong words
+function wrapLine(text: string, font: PDFFont, size: number): string[] {
+  const lines: string[] = []
+  let current = ""
+  for (const word of text.split(" ")) {
+    const candidate = current ? `${current} ${word}` : word
+    if (font.widthOfTextAtSize(candidate, size) <= CONTENT_WIDTH) {
+      current = candidate
+      continue
+    }
+    if (current) lines.push(current)
+    current = word
+    while (font.widthOfTextAtSize(current, size) > CONTENT_WIDTH) {
+      let fit = current.length - 1
+      while (fit > 1 && font.widthOfTextAtSize(current.slice(0, fit), size) > CONTENT_WIDTH) fit--
+      lines.push(current.slice(0, fit))
+      current = current.slice(fit)
+    }
+  }
+  lines.push(current)
+  return lines
+}
+
+class PdfWriter {
+  private page: PDFPage
+  private y = PAGE_HEIGHT - MARGIN
+
+  constructor(private readonly document: PDFDocument) {
+    this.page = document.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  }
+
+  text(text: string, font: PDFFont, size: number, color = rgb(0, 0, 0)) {
+    const lineHeight = size * 1.35
+    for (const paragraph of toWinAnsi(text).split(/\r?\n/)) {
+      for (const line of wrapLine(paragraph, font, size)) {
+        if (this.y - lineHeight < MARGIN) {
+          this.page = this.document.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+          this.y = PAGE_HEIGHT - MARGIN
+        }
+        this.y -= lineHeight
+        this.page.drawText(line, { x: MARGIN, y: this.y, size, font, color })
+      }
+    }
+  }
+
+  gap(points: number) {
+    this.y -= points
+  }
+}
+
+export async function renderThreadPdf(exported: ThreadExport): Promise<Uint8Array> {
+  const document = await PDFDocument.create()
+  const regular = await document.embedFont(StandardFonts.Helvetica)
+  const bold = await document.embedFont(StandardFonts.HelveticaBold)
+  const title = exported.thread.title || "Untitled Chat"
+  document.setTitle(title)
+
+  const writer = new PdfWriter(document)
+  writer.text(title, bold, 18)
+  writer.text(
+    `Model: ${exported.thread.model} · Created: ${exported.thread.createdAt} · Exported: ${exported.exportedAt}`,
+    regular,
+    9,
+    MUTED,
+  )
+  if (exported.thread.synopsis) {
+    writer.gap(6)
+    writer.text(exported.thread.synopsis, regular, 10, MUTED)
+  }
+
+  for (const message of getExportedActivePath(exported)) {
+    writer.gap(14)
+    writer.text(`${message.role === "assistant" ? "Assistant" : "User"} · ${message.createdAt}`, bold, 11)
+    writer.gap(4)
+    writer.text(message.content, regular, 10)
+    if (message.searchQueries?.length) {
+      writer.gap(4)
+      writer.text(`Searched: ${message.searchQueries.map((query) => query.text).join(" · ")}`, regular, 8, MUTED)
+    }
+    if (message.sources?.length) {
+      writer.gap(4)
+      writer.text("Sources", bold, 9)
+      for (const source of message.sources) {
+        writer.text(formatExportedSource(source), regular, 8, MUTED)
+      }
+    }
+    const usage = formatExportedUsage(message)
+    if (usage) {
+      writer.gap(2)
+      writer.text(usage, regular, 8, MUTED)
+    }
+  }
+
+  return document.save()
+}
@@ -0,0 +1,460 @@
+// Chat thread export and import. Our JSON format keeps the whole message tree (every regenerated or
+// edited branch) so a re-import is lossless; Markdown and PDF render the active branch for reading.
+// Imports also accept Claude.ai data exports and Anthropic Messages API transcripts.
+
+import type { ChatThread, Database, Message, MessageSource, SearchQuery } from "@/types/database"
+import { getActivePath } from "@/lib/chat/message-tree"
+import { formatSourcePages } from "@/lib/chat/sources"
+
+export const THREAD_EXPORT_FORMAT = "claudedesk.thread"
+export const THREAD_EXPORT_VERSION = 1
+
+export type ThreadExportFormat = "md" | "json" | "pdf"
+
+export const THREAD_EXPORT_FORMATS: ThreadExportFormat[] = ["md", "json", "pdf"]
+
+// Caps what a single import request may create
+export const MAX_IMPORTED_THREADS = 50
+export const MAX_IMPORTED_MESSAGES = 5000
+
+export interface ExportedMessage {
+  id: string
+  parentId: string | null
+  siblingIndex: number
+  role: "user" | "assistant"
+  content: string
+  createdAt: string
+  usage: {
+    inputTokens: number
+    outputTokens: number
+    cacheCreationInputTokens: number
+    cacheReadInputTokens: number
+  }
+  sources: MessageSource[] | null
+  searchQueries: SearchQuery[] | null
+}
+
+export interface ThreadExport {
+  format: typeof THREAD_EXPORT_FORMAT
+  version: typeof THREAD_EXPORT_VERSION
+  exportedAt: string
+  thread: {
+    title: string | null
+    model: string
+    synopsis: string | null
+    createdAt: string
+    updatedAt: string
+    activeLeafId: string | null
+  }
+  messages: ExportedMessage[] // Oldest first
+}
+
+export function isThreadExportFormat(value: unknown): value is ThreadExportFormat {
+  return typeof value === "string" && (THREAD_EXPORT_FORMATS as string[]).includes(value)
+}
+
+export function buildThreadExport(thread: ChatThread, messages: Message[]): ThreadExport {
+  return {
+    format: THREAD_EXPORT_FORMAT,
+    version: THREAD_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    thread: {
+      title: thread.title,
+      model: thread.model,
+      synopsis: thread.synopsis,
+      createdAt: thread.created_at,
+      updatedAt: thread.updated_at,
+      activeLeafId: thread.active_leaf_id,
+    },
+    messages: [...messages]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((message) => ({
+        id: message.id,
+        parentId: message.parent_message_id,
+        siblingIndex: message.sibling_index,
+        role: message.role === "assistant" ? "assistant" : "user",
+        content: message.content,
+        createdAt: message.created_at,
+        usage: {
+          inputTokens: message.input_tokens ?? 0,
+          outputTokens: message.output_tokens ?? 0,
+          cacheCreationInputTokens: message.cache_creation_input_tokens ?? 0,
+          cacheReadInputTokens: message.cache_read_input_tokens ?? 0,
+        },
+        sources: message.sources,
+        searchQueries: message.search_queries,
+      })),
+  }
+}
+
+// The branch shown in the chat view, which is what Markdown and PDF exports contain
+export function getExportedActivePath(exported: ThreadExport): ExportedMessage[] {
+  const nodes = exported.messages.map((message) => ({
+    ...message,
+    parent_message_id: message.parentId,
+    sibling_index: message.siblingIndex,
+    created_at: message.createdAt,
+  }))
+  return getActivePath(nodes, exported.thread.activeLeafId)
+}
+
+export function formatExportedSource(source: MessageSource): string {
+  const section = source.headingPath ? ` › ${source.headingPath}` : ""
+  const pages = formatSourcePages(source)
+  return `[${source.index}] ${source.documentName}${section}${pages ? ` (${pages})` : ""}`
+}
+
+export function formatExportedUsage(message: ExportedMessage): string | null {
+  const { inputTokens, outputTokens, cacheReadInputTokens } = message.usage
+  if (inputTokens + outputTokens === 0) return null
+  const cached = cacheReadInputTokens > 0 ? ` (${cacheReadInputTokens} cached)` : ""
+  return `${inputTokens} in / ${outputTokens} out tokens${cached}`
+}
+
+export function renderThreadMarkdown(exported: ThreadExport): string {
+  const { thread } = exported
+  const lines = [
+    `# ${thread.title || "Untitled Chat"}`,
+    "",
+    `- Model: ${thread.model}`,
+    `- Created: ${thread.createdAt}`,
+    `- Exported: ${exported.exportedAt}`,
+  ]
+  if (thread.synopsis) lines.push("", `> ${thread.synopsis}`)
+
+  for (const message of getExportedActivePath(exported)) {
+    const speaker = message.role === "assistant" ? "Assistant" : "User"
+    lines.push("", `## ${speaker} · ${message.createdAt}`, "", message.content)
+    if (message.searchQueries?.length) {
+      lines.push("", `_Searched: ${message.searchQueries.map((query) => query.text).join(" · ")}_`)
+    }
+    if (message.sources?.length) {
+      lines.push("", "**Sources**", "", ...message.sources.map((source) => `- ${formatExportedSource(source)}`))
+    }
+    const usage = formatExportedUsage(message)
+    if (usage) lines.push("", `_${usage}_`)
+  }
+  return `${lines.join("\n")}\n`
+}
+
+// Import
+
+export interface ImportedMessage {
+  key: string // Identifies the message within the import, for parent links
+  parentKey: string | null
+  role: "user" | "assistant"
+  content: string
+  createdAt: string | null
+  usage?: ExportedMessage["usage"]
+  sources?: MessageSource[] | null
+  searchQueries?: SearchQuery[] | null
+}
+
+export interface ImportedThread {
+  title: string | null
+  model: string | null
+  createdAt: string | null
+  activeLeafKey: string | null
+  messages: ImportedMessage[] // Parents before children
+}
+
+type MessageInsert = Database["public"]["Tables"]["messages"]["Insert"]
+
+type ParseResult = { threads: ImportedThread[]; error?: undefined } | { threads?: undefined; error: string }
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function asTimestamp(value: unknown): string | null {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : null
+}
+
+function isNullable<T>(value: unknown, check: (value: unknown) => value is T): value is T | null | undefined {
+  return value === null || value === undefined || check(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value)
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string"
+}
+
+const SEARCH_QUERY_KINDS: SearchQuery["kind"][] = ["standalone", "sub_query", "hypothetical"]
+
+// Sources and search queries are rendered as-is by the thread view, so uploaded ones are rebuilt field by field
+function toMessageSource(value: unknown): MessageSource | null {
+  if (
+    !isObject(value) ||
+    !isFiniteNumber(value.index) ||
+    !isString(value.chunkId) ||
+    !isString(value.documentId) ||
+    !isString(value.documentName) ||
+    !isFiniteNumber(value.similarity) ||
+    !(value.chunkIndex === null || isFiniteNumber(value.chunkIndex)) ||
+    !isNullable(value.pageStart, isFiniteNumber) ||
+    !isNullable(value.pageEnd, isFiniteNumber) ||
+    !isNullable(value.headingPath, isString) ||
+    !(value.rerankScore === undefined || isFiniteNumber(value.rerankScore))
+  ) {
+    return null
+  }
+  return {
+    index: value.index,
+    chunkId: value.chunkId,
+    documentId: value.documentId,
+    documentName: value.documentName,
+    chunkIndex: value.chunkIndex,
+    pageStart: value.pageStart ?? null,
+    pageEnd: value.pageEnd ?? null,
+    headingPath: value.headingPath ?? null,
+    similarity: value.similarity,
+    ...(value.rerankScore !== undefined ? { rerankScore: value.rerankScore } : {}),
+  }
+}
+
+function toSearchQuery(value: unknown): SearchQuery | null {
+  if (!isObject(value) || !SEARCH_QUERY_KINDS.includes(value.kind) || !isString(value.text)) return null
+  return { kind: value.kind, text: value.text }
+}
+
+// Text of an Anthropic content field: a string or an array of content blocks (non-text blocks dropped)
+function contentText(content: unknown): string {
+  if (typeof content === "string") return content
+  if (!Array.isArray(content)) return ""
+  return content
+    .map((block) => (isObject(block) && block.type === "text" && typeof block.text === "string" ? block.text : ""))
+    .filter(Boolean)
+    .join("\n\n")
+}
+
+// Our own format: keeps ids as keys so the tree and the active branch survive
+function parseOwnExport(data: Record<string, any>): ImportedThread | string {
+  if (data.version !== THREAD_EXPORT_VERSION) {
+    return `Unsupported export version ${data.version}; expected ${THREAD_EXPORT_VERSION}`
+  }
+  if (!isObject(data.thread) || !Array.isArray(data.messages)) return "Export is missing thread or messages"
+  const keys = new Set(data.messages.map((message: any) => message?.id))
+  const messages: ImportedMessage[] = []
+  for (const message of data.messages) {
+    if (!isObject(message) || typeof message.id !== "string" || typeof message.content !== "string") {
+      return "Every exported message needs an id and content"
+    }
+    const sources = Array.isArray(message.sources) ? message.sources.map(toMessageSource) : null
+    if (sources?.includes(null)) {
+      return `Message ${message.id} has an invalid source`
+    }
+    const searchQueries = Array.isArray(message.searchQueries) ? message.searchQueries.map(toSearchQuery) : null
+    if (searchQueries?.includes(null)) {
+      return `Message ${message.id} has an invalid search query`
+    }
+    messages.push({
+      key: message.id,
+      parentKey: typeof message.parentId === "string" && keys.has(message.parentId) ? message.parentId : null,
+      role: message.role === "assistant" ? "assistant" : "user",
+      content: message.content,
+      createdAt: asTimestamp(message.createdAt),
+      usage: isObject(message.usage) ? (message.usage as ExportedMessage["usage"]) : undefined,
+      sources: sources as MessageSource[] | null,
+      searchQueries: searchQueries as SearchQuery[] | null,
+    })
+  }
+  return {
+    title: typeof data.thread.title === "string" ? data.thread.title : null,
+    model: typeof data.thread.model === "string" ? data.thread.model : null,
+    createdAt: asTimestamp(data.thread.createdAt),
+    activeLeafKey: typeof data.thread.activeLeafId === "string" ? data.thread.activeLeafId : null,
+    messages: orderParentsFirst(messages),
+  }
+}
+
+// One conversation from a Claude.ai data export (conversations.json). Messages carry a sender and,
+// in newer exports, parent_message_uuid; older ones are a flat list in order.
+function parseClaudeAiConversation(conversation: Record<string, any>): ImportedThread | string {
+  const chatMessages = conversation.chat_messages
+  if (!Array.isArray(chatMessages)) return "Conversation is missing chat_messages"
+  const keys = new Set(chatMessages.map((message: any) => message?.uuid))
+  const messages: ImportedMessage[] = []
+  // Messages without text (e.g. attachment-only turns) are dropped; links through them go to their parent
+  const skippedParent = new Map<string, string | null>()
+  let previousKey: string | null = null
+  for (const [i, message] of chatMessages.entries()) {
+    if (!isObject(message)) continue
+    const key = typeof message.uuid === "string" ? message.uuid : `message-${i}`
+    const parentKey: string | null =
+      typeof message.parent_message_uuid === "string" && keys.has(message.parent_message_uuid)
+        ? message.parent_message_uuid
+        : previousKey
+    previousKey = key
+    const content = contentText(message.content) || (typeof message.text === "string" ? message.text : "")
+    if (!content.trim()) {
+      skippedParent.set(key, parentKey)
+      continue
+    }
+    messages.push({
+      key,
+      parentKey,
+      role: message.sender === "assistant" ? "assistant" : "user",
+      content,
+      createdAt: asTimestamp(message.created_at),
+    })
+  }
+
+  // Nearest kept ancestor; parents can come later in the list, so this runs once every message is seen
+  const keptAncestor = (key: string | null): string | null => {
+    const seen = new Set<string>()
+    while (key !== null && skippedParent.has(key) && !seen.has(key)) {
+      seen.add(key)
+      key = skippedParent.get(key) ?? null
+    }
+    return key !== null && skippedParent.has(key) ? null : key
+  }
+  for (const message of messages) {
+    message.parentKey = keptAncestor(message.parentKey)
+  }
+
+  return {
+    title: typeof conversation.name === "string" && conversation.name.trim() ? conversation.name : null,
+    model: typeof conversation.model === "string" ? conversation.model : null,
+    createdAt: asTimestamp(conversation.created_at),
+    activeLeafKey:
+      typeof conversation.current_leaf_message_uuid === "string"
+        ? keptAncestor(conversation.current_leaf_message_uuid)
+        : null,
+    messages: orderParentsFirst(messages),
+  }
+}
+
+// An Anthropic Messages API transcript: { model?, messages: [{ role, content }] }
+function parseMessagesApiTranscript(data: Record<string, any>): ImportedThread | string {
+  const messages: ImportedMessage[] = []
+  for (const [i, message] of (data.messages as unknown[]).entries()) {
+    if (!isObject(message) || (message.role !== "user" && message.role !== "assistant")) {
+      return `Message ${i + 1} needs a role of "user" or "assistant"`
+    }
+    const content = contentText(message.content)
+    if (!content.trim()) continue
+    messages.push({
+      key: `message-${i}`,
+      parentKey: messages.length > 0 ? messages[messages.length - 1].key : null,
+      role: message.role,
+      content,
+      createdAt: null,
+    })
+  }
+  return {
+    title: typeof data.title === "string" ? data.title : null,
+    model: typeof data.model === "string" ? data.model : null,
+    createdAt: null,
+    activeLeafKey: null,
+    messages,
+  }
+}
+
+// Inserting parents first keeps parent_message_id references valid row by row
+function orderParentsFirst(messages: ImportedMessage[]): ImportedMessage[] {
+  const byKey = new Map(messages.map((message) => [message.key, message]))
+  const ordered: ImportedMessage[] = []
+  const visiting = new Set<string>()
+  const placed = new Set<string>()
+  const place = (message: ImportedMessage) => {
+    if (placed.has(message.key)) return
+    visiting.add(message.key)
+    const parent = message.parentKey ? byKey.get(message.parentKey) : undefined
+    // Unknown parents and cycles detach the message instead of failing the import
+    if (!parent || visiting.has(parent.key)) {
+      message.parentKey = null
+    } else {
+      place(parent)
+    }
+    visiting.delete(message.key)
+    placed.add(message.key)
+    ordered.push(message)
+  }
+  for (const message of messages) place(message)
+  return ordered
+}
+
+// One thread in our own export format, without the upload limits of parseThreadImport. Project
+// archives use it: their threads come from this app and the archive as a whole is under quota.
+export function parseThreadExport(data: unknown): ImportedThread | string {
+  if (!isObject(data) || data.format !== THREAD_EXPORT_FORMAT) return "Not a ClaudeDesk thread export"
+  return parseOwnExport(data)
+}
+
+// Recognizes the uploaded JSON and turns it into threads to create
+export function parseThreadImport(data: unknown): ParseResult {
+  let threads: (ImportedThread | string)[]
+  if (isObject(data) && data.format === THREAD_EXPORT_FORMAT) {
+    threads = [parseOwnExport(data)]
+  } else if (isObject(data) && Array.isArray(data.chat_messages)) {
+    threads = [parseClaudeAiConversation(data)]
+  } else if (Array.isArray(data) && data.every((item) => isObject(item) && Array.isArray(item.chat_messages))) {
+    threads = data.map((conversation) => parseClaudeAiConversation(conversation))
+  } else if (isObject(data) && Array.isArray(data.messages)) {
+    threads = [parseMessagesApiTranscript(data)]
+  } else {
+    return { error: "Unrecognized file: expected a ClaudeDesk thread export, a Claude.ai export or a messages array" }
+  }
+
+  const error = threads.find((thread): thread is string => typeof thread === "string")
+  if (error) return { error }
+  const parsed = (threads as ImportedThread[]).filter((thread) => thread.messages.length > 0)
+  if (parsed.length === 0) return { error: "The file contains no messages to import" }
+  if (parsed.length > MAX_IMPORTED_THREADS) {
+    return { error: `At most ${MAX_IMPORTED_THREADS} conversations can be imported at once` }
+  }
+  const messageCount = parsed.reduce((total, thread) => total + thread.messages.length, 0)
+  if (messageCount > MAX_IMPORTED_MESSAGES) {
+    return { error: `At most ${MAX_IMPORTED_MESSAGES} messages can be imported at once` }
+  }
+  return { threads: parsed }
+}
+
+// Token counts come from an uploaded file, so anything that isn't a non-negative number is dropped
+function tokenCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0
+}
+
+// Rows for a new thread: fresh ids for every message, with parent links and the active leaf remapped
+// onto them. mapSource rewrites citations when the cited documents were imported under new ids too.
+export function buildImportedMessageRows(
+  thread: ImportedThread,
+  chatThreadId: string,
+  mapSource: (source: MessageSource) => MessageSource = (source) => source,
+): { rows: MessageInsert[]; activeLeafId: string; messageIds: Map<string, string> } {
+  const ids = new Map(thread.messages.map((message) => [message.key, crypto.randomUUID()]))
+  const siblingCounts = new Map<string | null, number>()
+  // Messages without timestamps (e.g. Messages API transcripts) are spaced a second apart to keep their order
+  const start = Date.parse(thread.createdAt ?? "") || Date.now() - thread.messages.length * 1000
+
+  const rows: MessageInsert[] = thread.messages.map((message, i) => {
+    const parentId = message.parentKey ? ids.get(message.parentKey) || null : null
+    const siblingIndex = siblingCounts.get(parentId) ?? 0
+    siblingCounts.set(parentId, siblingIndex + 1)
+    const inputTokens = tokenCount(message.usage?.inputTokens)
+    const outputTokens = tokenCount(message.usage?.outputTokens)
+    return {
+      id: ids.get(message.key),
+      chat_thread_id: chatThreadId,
+      role: message.role,
+      content: message.content,
+      tokens_used: inputTokens + outputTokens,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      cache_creation_input_tokens: tokenCount(message.usage?.cacheCreationInputTokens),
+      cache_read_input_tokens: tokenCount(message.usage?.cacheReadInputTokens),
+      sources: message.sources ? message.sources.map(mapSource) : null,
+      search_queries: message.searchQueries ?? null,
+      parent_message_id: parentId,
+      sibling_index: siblingIndex,
+      created_at: message.createdAt ?? new Date(start + i * 1000).toISOString(),
+    }
+  })
+
+  const newest = rows.reduce((latest, row) => (row.created_at! > latest.created_at! ? row : latest))
+  const activeLeafId = (thread.activeLeafKey && ids.get(thread.activeLeafKey)) || newest.id!
+  return { rows, activeLeafId, messageIds: ids }
+}
@@ -0,0 +1,370 @@
+// Syntax-aware chunking for source files. The file is parsed with tree-sitter (WASM grammars from
+// tree-sitter-wasms) and split at top-level declarations, so a chunk holds whole functions, classes
+// or methods rather than whatever fits in a line budget. Oversized classes are split into their
+// members, and every chunk's context names the symbols it contains with their line spans.
+
+import path from "path"
+import type Parser from "web-tree-sitter"
+
+export interface CodeSymbol {
+  name: string
+  kind: string
+  startLine: number
+  endLine: number
+}
+
+export interface CodeChunk {
+  content: string
+  context: string
+  tokens: number
+  semanticBoundary: string
+  chunkType: string
+  metadata: Record<string, unknown>
+}
+
+interface ChunkCodeOptions {
+  language: string
+  documentTitle: string
+  maxTokens: number
+  countTokens: (text: string) => Promise<number>
+}
+
+// A contiguous piece of the file: one declaration (with its leading comments) or a run of other statements
+interface CodeUnit {
+  text: string
+  startLine: number
+  endLine: number
+  symbol: CodeSymbol | null
+  tokens: number
+}
+
+// CODE_LANGUAGES name -> grammar file in tree-sitter-wasms/out
+const GRAMMARS: Record<string, string> = {
+  typescript: "typescript",
+  tsx: "tsx",
+  javascript: "javascript",
+  python: "python",
+  go: "go",
+  rust: "rust",
+  java: "java",
+  kotlin: "kotlin",
+  scala: "scala",
+  swift: "swift",
+  c: "c",
+  cpp: "cpp",
+  csharp: "c_sharp",
+  ruby: "ruby",
+  php: "php",
+  shell: "bash",
+}
+
+// Declaration node types across the supported grammars -> symbol kind
+const SYMBOL_KINDS: Record<string, string> = {
+  function_declaration: "function",
+  generator_function_declaration: "function",
+  function_definition: "function",
+  function_item: "function",
+  method_definition: "method",
+  method_declaration: "method",
+  method: "method",
+  singleton_method: "method",
+  constructor_declaration: "constructor",
+  class_declaration: "class",
+  abstract_class_declaration: "class",
+  class_definition: "class",
+  class_specifier: "class",
+  class: "class",
+  object_declaration: "object",
+  object_definition: "object",
+  interface_declaration: "interface",
+  protocol_declaration: "protocol",
+  trait_declaration: "trait",
+  trait_definition: "trait",
+  trait_item: "trait",
+  impl_item: "impl",
+  struct_item: "struct",
+  struct_specifier: "struct",
+  struct_declaration: "struct",
+  record_declaration: "record",
+  enum_declaration: "enum",
+  enum_item: "enum",
+  enum_specifier: "enum",
+  type_alias_declaration: "type",
+  type_item: "type",
+  type_declaration: "type",
+  module: "module",
+  mod_item: "module",
+  internal_module: "namespace",
+  namespace_definition: "namespace",
+  namespace_declaration: "namespace",
+}
+
+// Nodes that wrap a declaration: `export ...`, Python decorators, C++ templates, TypeScript `declare`
+const WRAPPER_TYPES = new Set(["export_statement", "decorated_definition", "template_declaration", "ambient_declaration"])
+// JS/TS `const name = ...` declarations are symbols too; arrow functions and class expressions take their kind
+const VARIABLE_TYPES = new Set(["lexical_declaration", "variable_declaration"])
+const COMMENT_TYPES = new Set(["comment", "line_comment", "block_comment"])
+
+// Larger files (generated bundles, vendored code) are left to the heuristic chunker
+const MAX_PARSE_BYTES = 2_000_000
+
+let parserReady: Promise<typeof Parser> | null = null
+const languages = new Map<string, Promise<Parser.Language>>()
+
+// Grammars are resolved from node_modules at runtime; next.config.mjs keeps both packages external
+// and traces the .wasm files into the worker function
+function wasmPath(pkg: string, file: string): string {
+  return path.join(process.cwd(), "node_modules", pkg, file)
+}
+
+async function loadParser(): Promise<typeof Parser> {
+  parserReady ??= import("web-tree-sitter").then(async ({ default: TreeSitter }) => {
+    await TreeSitter.init({ locateFile: () => wasmPath("web-tree-sitter", "tree-sitter.wasm") })
+    return TreeSitter
+  })
+  return parserReady
+}
+
+async function loadLanguage(TreeSitter: typeof Parser, grammar: string): Promise<Parser.Language> {
+  let language = languages.get(grammar)
+  if (!language) {
+    language = TreeSitter.Language.load(wasmPath("tree-sitter-wasms", `out/tree-sitter-${grammar}.wasm`))
+    languages.set(grammar, language)
+    language.catch(() => languages.delete(grammar))
+  }
+  return language
+}
+
+// The declaration inside export/decorator wrappers, or null for anything that isn't one
+function unwrapDeclaration(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  if (SYMBOL_KINDS[node.type] || VARIABLE_TYPES.has(node.type)) return node
+  if (!WRAPPER_TYPES.has(node.type)) return null
+  for (const child of node.namedChildren) {
+    const declaration = unwrapDeclaration(child)
+    if (declaration) return declaration
+  }
+  return null
+}
+
+function symbolName(node: Parser.SyntaxNode): string | null {
+  const name = node.childForFieldName("name")
+  if (name) return name.text
+
+  // C/C++ functions: the name sits inside nested declarators, e.g. `int *foo(int a)`
+  let declarator = node.childForFieldName("declarator")
+  while (declarator) {
+    const inner = declarator.childForFieldName("declarator")
+    if (!inner) return declarator.text
+    declarator = inner
+  }
+
+  // Rust `impl Trait for Type`, Go `type ( ... )` and JS/TS `const a = ...`
+  const type = node.childForFieldName("type")
+  if (type) {
+    const trait = node.childForFieldName("trait")
+    return trait ? `${trait.text} for ${type.text}` : type.text
+  }
+  const spec = node.namedChildren.find((child) => child.type === "type_spec" || child.type === "variable_declarator")
+  if (spec) return spec.childForFieldName("name")?.text ?? null
+  // Grammars without a name field (e.g. Kotlin) still start with the identifier
+  return node.namedChildren.find((child) => /identifier$/.test(child.type))?.text ?? null
+}
+
+function symbolKind(node: Parser.SyntaxNode): string | null {
+  if (!VARIABLE_TYPES.has(node.type)) return SYMBOL_KINDS[node.type] ?? null
+  const value = node.namedChildren.find((child) => child.type === "variable_declarator")?.childForFieldName("value")
+  if (!value) return "variable"
+  if (/function|arrow_function/.test(value.type)) return "function"
+  if (value.type === "class") return "class"
+  return "variable"
+}
+
+// A comment (or run of comments) directly above a declaration, with no blank line in between
+function isAttachedComment(nodes: Parser.SyntaxNode[], index: number): boolean {
+  let i = index
+  while (i < nodes.length && COMMENT_TYPES.has(nodes[i].type)) {
+    const next = nodes[i + 1]
+    if (!next || next.startPosition.row - nodes[i].endPosition.row > 1) return false
+    i++
+  }
+  return i < nodes.length && unwrapDeclaration(nodes[i]) !== null
+}
+
+// The container whose children are a declaration's members (class/impl/namespace bodies)
+function memberContainer(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  const body = node.childForFieldName("body")
+  if (!body || body.namedChildCount === 0) return null
+  return body.namedChildren.some((child) => unwrapDeclaration(child)) ? body : null
+}
+
+class CodeUnitBuilder {
+  readonly units: CodeUnit[] = []
+
+  constructor(
+    private readonly source: string,
+    private readonly maxTokens: number,
+    private readonly countTokens: (text: string) => Promise<number>,
+  ) {}
+
+  private async push(startIndex: number, endIndex: number, startLine: number, endLine: number, symbol: CodeSymbol | null) {
+    // Start at the beginning of the line so indented members keep their indentation
+    const lineBegin = this.source.lastIndexOf("\n", startIndex - 1) + 1
+    const from = this.source.slice(lineBegin, startIndex).trim() ? startIndex : lineBegin
+    const text = this.source.slice(from, endIndex).replace(/\s+$/, "")
+    if (!text.trim()) return
+    const tokens = await this.countTokens(text)
+    if (tokens <= this.maxTokens) {
+      this.units.push({ text, startLine, endLine, symbol, tokens })
+      return
+    }
+
+    // No smaller syntactic boundary left: fall back to line windows within the declaration
+    let lines: string[] = []
+    let linesTokens = 0
+    let lineStart = startLine
+    const flush = async (lineEnd: number) => {
+      const content = lines.join("\n").replace(/\s+$/, "")
+      if (content.trim()) {
+        this.units.push({ text: content, startLine: lineStart, endLine: lineEnd, symbol, tokens: await this.countTokens(content) })
+      }
+      lines = []
+      linesTokens = 0
+      lineStart = lineEnd + 1
+    }
+    for (const [offset, line] of text.split("\n").entries()) {
+      const lineTokens = await this.countTokens(line)
+      if (lines.length > 0 && linesTokens + lineTokens > this.maxTokens) await flush(startLine + offset - 1)
+      lines.push(line)
+      linesTokens += lineTokens
+    }
+    await flush(endLine)
+  }
+
+  // Walks a list of sibling nodes, emitting one unit per declaration and one per run of other statements.
+  // Leading comments stay attached to the declaration that follows them.
+  async visit(nodes: Parser.SyntaxNode[], scope: string[]) {
+    let pending: Parser.SyntaxNode[] = []
+    const flushPending = async () => {
+      const first = pending[0]
+      const last = pending[pending.length - 1]
+      if (first) {
+        const owner = scope.length ? { name: scope.join("."), kind: "members", startLine: first.startPosition.row + 1, endLine: last.endPosition.row + 1 } : null
+        await this.push(first.startIndex, last.endIndex, first.startPosition.row + 1, last.endPosition.row + 1, owner)
+      }
+      pending = []
+    }
+
+    for (const [i, node] of nodes.entries()) {
+      const declaration = unwrapDeclaration(node)
+      if (!declaration) {
+        if (!isAttachedComment(nodes, i)) pending.push(node)
+        continue
+      }
+      await flushPending()
+
+      // Include the comment block attached above (contiguous comment siblings)
+      let start = node
+      for (let j = i - 1; j >= 0 && COMMENT_TYPES.has(nodes[j].type) && start.startPosition.row - nodes[j].endPosition.row <= 1; j--) {
+        start = nodes[j]
+      }
+
+      const name = symbolName(declaration) ?? "(anonymous)"
+      const declared = symbolKind(declaration) ?? "declaration"
+      // Python and C++ member functions parse as plain functions
+      const kind = scope.length && declared === "function" ? "method" : declared
+      const qualified = [...scope, name].join(".")
+      const startLine = start.startPosition.row + 1
+      const endLine = node.endPosition.row + 1
+      const symbol: CodeSymbol = { name: qualified, kind, startLine, endLine }
+
+      const text = this.source.slice(start.startIndex, node.endIndex)
+      const container = memberContainer(declaration)
+      if (container && (await this.countTokens(text)) > this.maxTokens) {
+        // The declaration header (signature up to the first member) gets a unit of its own
+        const firstMember = container.namedChildren[0]
+        const headerEndLine = Math.max(startLine, firstMember.startPosition.row)
+        await this.push(start.startIndex, firstMember.startIndex, startLine, headerEndLine, { ...symbol, endLine: headerEndLine })
+        await this.visit(container.namedChildren, [...scope, name])
+      } else {
+        await this.push(start.startIndex, node.endIndex, startLine, endLine, symbol)
+      }
+    }
+    await flushPending()
+  }
+}
+
+function describeSymbol(symbol: CodeSymbol): string {
+  return `${symbol.name} (${symbol.kind}, lines ${symbol.startLine}-${symbol.endLine})`
+}
+
+// Returns null when the language has no grammar or the file doesn't parse, so the caller can fall back
+// to the heuristic chunker
+export async function chunkCode(text: string, options: ChunkCodeOptions): Promise<CodeChunk[] | null> {
+  const grammar = GRAMMARS[options.language]
+  if (!grammar || text.length > MAX_PARSE_BYTES) return null
+
+  let tree: Parser.Tree
+  try {
+    const TreeSitter = await loadParser()
+    const parser = new TreeSitter()
+    parser.setLanguage(await loadLanguage(TreeSitter, grammar))
+    tree = parser.parse(text)
+    parser.delete()
+  } catch (error) {
+    console.warn(`⚠️ Could not parse ${options.language} source, using heuristic code chunking:`, error)
+    return null
+  }
+
+  try {
+    const root = tree.rootNode
+    // A file that's mostly syntax errors (wrong extension, template syntax) chunks better by lines
+    const errors = root.descendantsOfType("ERROR").reduce((sum, node) => sum + node.text.length, 0)
+    if (errors > text.length / 2) return null
+
+    const { documentTitle, maxTokens, countTokens } = options
+    const builder = new CodeUnitBuilder(text, maxTokens, countTokens)
+    await builder.visit(root.namedChildren, [])
+    if (builder.units.length === 0) return null
+
+    // Adjacent small units are packed together up to the token budget
+    const chunks: CodeChunk[] = []
+    let group: CodeUnit[] = []
+    let groupTokens = 0
+    const flush = async () => {
+      if (group.length === 0) return
+      // Units that were separated by blank lines in the file stay separated
+      const content = group
+        .map((unit, i) => (i === 0 ? "" : unit.startLine > group[i - 1].endLine + 1 ? "\n\n" : "\n") + unit.text)
+        .join("")
+      const symbols = group.flatMap((unit) => (unit.symbol ? [unit.symbol] : []))
+      const startLine = group[0].startLine
+      const endLine = group[group.length - 1].endLine
+      const context = [
+        `Document: ${documentTitle}`,
+        `Language: ${options.language}`,
+        symbols.length ? `Symbols: ${symbols.map(describeSymbol).join("; ")}` : "Top-level code",
+        `Lines: ${startLine}-${endLine}`,
+      ].join(" | ")
+      chunks.push({
+        content,
+        context,
+        tokens: await countTokens(content),
+        semanticBoundary: symbols.length ? "CODE_SYMBOL" : "CODE_TOP_LEVEL",
+        chunkType: "CODE",
+        metadata: { language: options.language, startLine, endLine, symbols },
+      })
+      group = []
+      groupTokens = 0
+    }
+
+    for (const unit of builder.units) {
+      if (group.length > 0 && groupTokens + unit.tokens > maxTokens) await flush()
+      group.push(unit)
+      groupTokens += unit.tokens
+    }
+    await flush()
+    return chunks
+  } finally {
+    tree.delete()
+  }
+}
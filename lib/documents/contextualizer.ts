@@ -0,0 +1,148 @@
+// Contextual retrieval: before embedding, Claude writes a sentence or two situating each chunk in its
+// document, and that text is embedded together with the chunk. Chunks that only say "set it to 30
+// seconds" then still match queries about the setting they belong to. The document is a cached
+// prompt prefix, so every chunk after the first reads it at the cache rate instead of paying full price.
+
+import Anthropic from "@anthropic-ai/sdk"
+import { UTILITY_MODEL } from "@/lib/chat/models"
+
+export const CONTEXTUALIZER_MODEL = UTILITY_MODEL
+
+export interface ChunkSpan {
+  start: number
+  end: number
+}
+
+// Token cost of one contextualization run, recorded in the usage ledger
+export interface ContextualizationUsage {
+  chunks: number
+  failed: number
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens: number
+  cacheReadInputTokens: number
+}
+
+interface ContextualizeOptions {
+  anthropic: Anthropic
+  documentTitle: string
+  signal?: AbortSignal
+  onProgress?: (contextualized: number) => Promise<void>
+}
+
+// Documents longer than this (~100k tokens) are sent as a window around each chunk. Windows start at
+// fixed offsets so the chunks inside one share a cache entry.
+const MAX_DOCUMENT_CHARS = 400_000
+const WINDOW_STRIDE = MAX_DOCUMENT_CHARS / 2
+const MAX_CONCURRENT_REQUESTS = 4
+const MAX_CONTEXT_TOKENS = 150
+
+const SYSTEM_PROMPT =
+  "You write short context for chunks of a document to improve search retrieval. Given the document and one " +
+  "chunk from it, reply with one or two sentences that situate the chunk within the overall document: name " +
+  "the subject, section or entity it is about when the chunk itself doesn't. Reply with the context only."
+
+function documentWindow(text: string, span: ChunkSpan | null): { key: number; text: string } {
+  if (text.length <= MAX_DOCUMENT_CHARS) return { key: 0, text }
+  // Unlocated chunks fall back to the start of the document
+  const index = Math.floor((span?.start ?? 0) / WINDOW_STRIDE)
+  const start = Math.max(0, Math.min(index * WINDOW_STRIDE, text.length - MAX_DOCUMENT_CHARS))
+  return { key: index, text: text.slice(start, start + MAX_DOCUMENT_CHARS) }
+}
+
+// Contexts for `chunks` (null where generation failed), in order. Spans locate each chunk in `text`.
+// Authentication errors stop the run early, since every remaining call would fail the same way; so
+// does the abort signal, and the caller checks it after recording the usage so far.
+export async function generateChunkContexts(
+  text: string,
+  chunks: { content: string }[],
+  spans: (ChunkSpan | null)[],
+  options: ContextualizeOptions,
+): Promise<{ contexts: (string | null)[]; usage: ContextualizationUsage }> {
+  const { anthropic, documentTitle, signal, onProgress } = options
+  const contexts: (string | null)[] = chunks.map(() => null)
+  const usage: ContextualizationUsage = {
+    chunks: 0,
+    failed: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  }
+  let stopReason: string | null = null
+
+  const contextualize = async (index: number, document: string) => {
+    if (stopReason || signal?.aborted) return
+    try {
+      const response = await anthropic.messages.create({
+        model: CONTEXTUALIZER_MODEL,
+        max_tokens: MAX_CONTEXT_TOKENS,
+        system: SYSTEM_PROMPT,
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "text",
+                text: `<document title="${documentTitle.replace(/"/g, "'")}">\n${document}\n</document>`,
+                cache_control: { type: "ephemeral" },
+              },
+              { type: "text", text: `Here is the chunk to situate within the document:\n<chunk>\n${chunks[index].content}\n</chunk>` },
+            ],
+          },
+        ],
+      })
+      usage.inputTokens += response.usage.input_tokens
+      usage.outputTokens += response.usage.output_tokens
+      usage.cacheCreationInputTokens += response.usage.cache_creation_input_tokens ?? 0
+      usage.cacheReadInputTokens += response.usage.cache_read_input_tokens ?? 0
+
+      const context = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("")
+        .replace(/\s+/g, " ")
+        .trim()
+      if (context) {
+        contexts[index] = context
+        usage.chunks++
+      } else {
+        usage.failed++
+      }
+    } catch (error) {
+      usage.failed++
+      if (error instanceof Anthropic.AuthenticationError || error instanceof Anthropic.PermissionDeniedError) {
+        stopReason = error.message
+      } else {
+        console.warn(`⚠️ Context generation failed for chunk ${index}:`, (error as Error).message)
+      }
+    }
+  }
+
+  // Group chunks by document window; the first chunk of each group writes the cache the rest read
+  const groups = new Map<number, { document: string; indices: number[] }>()
+  for (const [index, span] of spans.entries()) {
+    const window = documentWindow(text, span)
+    const group = groups.get(window.key) ?? { document: window.text, indices: [] }
+    group.indices.push(index)
+    groups.set(window.key, group)
+  }
+
+  let done = 0
+  for (const { document, indices } of groups.values()) {
+    await contextualize(indices[0], document)
+    done++
+    for (let i = 1; i < indices.length; i += MAX_CONCURRENT_REQUESTS) {
+      const batch = indices.slice(i, i + MAX_CONCURRENT_REQUESTS)
+      await Promise.all(batch.map((index) => contextualize(index, document)))
+      done += batch.length
+      await onProgress?.(done)
+    }
+    if (stopReason || signal?.aborted) break
+  }
+
+  if (stopReason) {
+    console.warn(`⚠️ Contextual retrieval stopped, embedding remaining chunks without context: ${stopReason}`)
+    usage.failed = chunks.length - usage.chunks
+  }
+  return { contexts, usage }
+}
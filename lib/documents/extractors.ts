@@ -0,0 +1,339 @@
+// Text extraction for every format in lib/documents/file-types.ts. Extractors keep the structure the
+// chunker splits on: sections become markdown headings ("## Slide 3: Roadmap", "## Sheet: Q3") separated
+// by blank lines. Node.js only (pdf.js, mammoth, jszip).
+
+import type JSZip from "jszip"
+import { detectTextEncoding, type DetectedFileType, type DocumentFileType } from "@/lib/documents/file-types"
+import { extractPdf } from "@/lib/documents/pdf-extractor"
+
+// Where a page's text sits in ExtractedText.text: [start, end) character offsets
+export interface PageSpan {
+  page: number // 1-based
+  start: number
+  end: number
+}
+
+export interface ExtractedText {
+  text: string
+  pages?: PageSpan[] // Paginated formats only (PDF)
+}
+
+type Extractor = (buffer: ArrayBuffer, file: DetectedFileType) => Promise<string | ExtractedText>
+
+// Rows per block in spreadsheet output; each block repeats the sheet name so it survives chunking
+const SHEET_ROWS_PER_BLOCK = 25
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isNaN(code) ? entity : String.fromCodePoint(code)
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+function decodeText(buffer: ArrayBuffer): string {
+  return new TextDecoder(detectTextEncoding(new Uint8Array(buffer))).decode(buffer).replace(/^\uFEFF/, "")
+}
+
+// Collapses the whitespace left behind by markup while keeping paragraph breaks
+function tidy(text: string): string {
+  return text
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+// HTML/XHTML to text with headings as markdown, list items as bullets and block elements as paragraphs
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, inner: string) => {
+      const heading = inner.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim()
+      return heading ? `\n\n${"#".repeat(Number(level))} ${heading}\n\n` : ""
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(td|th)>/gi, " | ")
+    .replace(/<\/?(p|div|section|article|header|footer|main|aside|nav|blockquote|pre|table|tr|ul|ol|dl|dt|dd|figure|figcaption|hr)\b[^>]*>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+  return tidy(decodeEntities(text))
+}
+
+// Control words that open a group we never print (font tables, embedded pictures, document info...)
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "header", "footer", "headerl", "headerr",
+  "footerl", "footerr", "listtable", "listoverridetable", "rsidtbl", "generator", "xmlnstbl", "themedata",
+])
+
+export function rtfToText(rtf: string): string {
+  let output = ""
+  let skipping = false
+  const groupStack: boolean[] = []
+  const controlWord = /\\([a-z]+)(-?\d+)? ?/gy
+
+  for (let i = 0; i < rtf.length; ) {
+    const char = rtf[i]
+    if (char === "{") {
+      groupStack.push(skipping)
+      i++
+    } else if (char === "}") {
+      skipping = groupStack.pop() ?? false
+      i++
+    } else if (char === "\\") {
+      const next = rtf[i + 1]
+      if (next === "\\" || next === "{" || next === "}") {
+        if (!skipping) output += next
+        i += 2
+      } else if (next === "'") {
+        // Hex-escaped byte in the document's code page; Windows-1252 agrees with Latin-1 for text
+        if (!skipping) output += String.fromCharCode(parseInt(rtf.slice(i + 2, i + 4), 16))
+        i += 4
+      } else if (next === "*") {
+        skipping = true // Optional destination the reader doesn't understand
+        i += 2
+      } else if (next === "~") {
+        if (!skipping) output += " "
+        i += 2
+      } else {
+        controlWord.lastIndex = i
+        const match = controlWord.exec(rtf)
+        if (!match) {
+          i += 2
+          continue
+        }
+        i = controlWord.lastIndex
+        const [, word, param] = match
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+          skipping = true
+        } else if (!skipping) {
+          if (word === "par" || word === "line") output += "\n"
+          else if (word === "tab") output += "\t"
+          else if (word === "u" && param) {
+            const code = Number(param)
+            output += String.fromCharCode(code < 0 ? code + 65536 : code)
+            if (rtf[i] === "?") i++ // ASCII fallback for readers without Unicode
+          }
+        }
+      }
+    } else {
+      if (!skipping && char !== "\r" && char !== "\n") output += char
+      i++
+    }
+  }
+  return tidy(output)
+}
+
+async function loadZip(buffer: ArrayBuffer): Promise<JSZip> {
+  const { default: JSZipModule } = await import("jszip")
+  return await JSZipModule.loadAsync(buffer)
+}
+
+async function readZipText(zip: JSZip, path: string): Promise<string | null> {
+  const entry = zip.file(path)
+  return entry ? await entry.async("string") : null
+}
+
+// Resolves a relationship target (relative to the part that references it) to a path in the package
+function resolvePartPath(basePath: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1)
+  const parts = basePath.split("/").slice(0, -1)
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop()
+    else if (segment !== ".") parts.push(segment)
+  }
+  return parts.join("/")
+}
+
+// rId -> { target path, relationship type } from an OOXML .rels part
+async function readRelationships(zip: JSZip, relsPath: string, basePath: string) {
+  const relationships = new Map<string, { path: string; type: string }>()
+  const xml = await readZipText(zip, relsPath)
+  for (const match of xml?.matchAll(/<Relationship\b[^>]*>/g) ?? []) {
+    const id = /\bId="([^"]+)"/.exec(match[0])?.[1]
+    const target = /\bTarget="([^"]+)"/.exec(match[0])?.[1]
+    const type = /\bType="([^"]+)"/.exec(match[0])?.[1] ?? ""
+    if (id && target) relationships.set(id, { path: resolvePartPath(basePath, decodeEntities(target)), type })
+  }
+  return relationships
+}
+
+// DrawingML paragraphs (<a:p>) of a slide or notes part, one line each
+function drawingParagraphs(xml: string): string[] {
+  const paragraphs: string[] = []
+  for (const [paragraph] of xml.matchAll(/<a:p\b[\s\S]*?<\/a:p>/g)) {
+    const text = [...paragraph.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>/g)].map((run) => decodeEntities(run[1])).join("")
+    if (text.trim()) paragraphs.push(text.trim())
+  }
+  return paragraphs
+}
+
+async function extractPptx(buffer: ArrayBuffer): Promise<string> {
+  const zip = await loadZip(buffer)
+  const presentation = (await readZipText(zip, "ppt/presentation.xml")) ?? ""
+  const relationships = await readRelationships(zip, "ppt/_rels/presentation.xml.rels", "ppt/presentation.xml")
+  const slidePaths = [...presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g)]
+    .map((match) => relationships.get(match[1])?.path)
+    .filter((path): path is string => !!path)
+
+  const sections: string[] = []
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slide = await readZipText(zip, slidePath)
+    if (!slide) continue
+
+    let title = ""
+    const body: string[] = []
+    for (const [shape] of slide.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)) {
+      const paragraphs = drawingParagraphs(shape)
+      if (!title && /<p:ph\b[^>]*type="(?:title|ctrTitle)"/.test(shape)) {
+        title = paragraphs.join(" ")
+      } else {
+        body.push(...paragraphs)
+      }
+    }
+
+    const slideName = slidePath.split("/").pop()!
+    const slideRelationships = await readRelationships(zip, slidePath.replace(slideName, `_rels/${slideName}.rels`), slidePath)
+    const notesPath = [...slideRelationships.values()].find((rel) => rel.type.endsWith("/notesSlide"))?.path
+    const notesXml = notesPath ? await readZipText(zip, notesPath) : null
+    // Notes parts also hold the slide number placeholder; keep only the notes body
+    const notes = notesXml
+      ? [...notesXml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)]
+          .filter(([shape]) => /<p:ph\b[^>]*type="body"/.test(shape))
+          .flatMap(([shape]) => drawingParagraphs(shape))
+      : []
+
+    const heading = `## Slide ${index + 1}${title ? `: ${title}` : ""}`
+    sections.push([heading, body.join("\n"), notes.length > 0 ? `Speaker notes: ${notes.join(" ")}` : ""].filter(Boolean).join("\n\n"))
+  }
+  return sections.join("\n\n")
+}
+
+// "AB12" -> 27 (zero-based column index)
+function columnIndex(cellReference: string): number {
+  const letters = /^[A-Z]+/.exec(cellReference)?.[0] ?? "A"
+  let index = 0
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64)
+  return index - 1
+}
+
+async function extractXlsx(buffer: ArrayBuffer): Promise<string> {
+  const zip = await loadZip(buffer)
+  const workbook = (await readZipText(zip, "xl/workbook.xml")) ?? ""
+  const relationships = await readRelationships(zip, "xl/_rels/workbook.xml.rels", "xl/workbook.xml")
+
+  const sharedStringsXml = (await readZipText(zip, "xl/sharedStrings.xml")) ?? ""
+  const sharedStrings = [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((item) =>
+    [...item[1].matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((run) => decodeEntities(run[1])).join(""),
+  )
+
+  const sections: string[] = []
+  for (const sheet of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = decodeEntities(/\bname="([^"]*)"/.exec(sheet[0])?.[1] ?? "Sheet")
+    const relationshipId = /\br:id="([^"]+)"/.exec(sheet[0])?.[1]
+    const sheetPath = relationshipId ? relationships.get(relationshipId)?.path : undefined
+    const sheetXml = sheetPath ? await readZipText(zip, sheetPath) : null
+    if (!sheetXml) continue
+
+    const rows: string[] = []
+    for (const row of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+      const cells: string[] = []
+      for (const cell of row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const attributes = cell[1]
+        const inner = cell[2] ?? ""
+        const type = /\bt="([^"]+)"/.exec(attributes)?.[1]
+        const rawValue = /<v>([\s\S]*?)<\/v>/.exec(inner)?.[1]
+        let value = ""
+        if (type === "s" && rawValue !== undefined) value = sharedStrings[Number(rawValue)] ?? ""
+        else if (type === "inlineStr") value = [...inner.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((run) => decodeEntities(run[1])).join("")
+        else if (type === "b") value = rawValue === "1" ? "TRUE" : "FALSE"
+        else if (rawValue !== undefined) value = decodeEntities(rawValue)
+        if (!value) continue
+
+        const reference = /\br="([A-Z]+\d+)"/.exec(attributes)?.[1]
+        const column = reference ? columnIndex(reference) : cells.length
+        while (cells.length < column) cells.push("")
+        cells[column] = value.replace(/\s+/g, " ").trim()
+      }
+      if (cells.some(Boolean)) rows.push(cells.join(" | "))
+    }
+    if (rows.length === 0) continue
+
+    for (let start = 0; start < rows.length; start += SHEET_ROWS_PER_BLOCK) {
+      const block = rows.slice(start, start + SHEET_ROWS_PER_BLOCK)
+      const heading = rows.length > SHEET_ROWS_PER_BLOCK ? `## Sheet: ${name} (rows ${start + 1}-${start + block.length})` : `## Sheet: ${name}`
+      sections.push(`${heading}\n${block.join("\n")}`)
+    }
+  }
+  return sections.join("\n\n")
+}
+
+async function extractEpub(buffer: ArrayBuffer): Promise<string> {
+  const zip = await loadZip(buffer)
+  const container = (await readZipText(zip, "META-INF/container.xml")) ?? ""
+  const packagePath = /<rootfile\b[^>]*\bfull-path="([^"]+)"/.exec(container)?.[1]
+  const packageXml = packagePath ? await readZipText(zip, packagePath) : null
+  if (!packagePath || !packageXml) {
+    throw new Error("EPUB package document not found")
+  }
+
+  const manifest = new Map<string, string>()
+  for (const [item] of packageXml.matchAll(/<item\b[^>]*>/g)) {
+    const id = /\bid="([^"]+)"/.exec(item)?.[1]
+    const href = /\bhref="([^"]+)"/.exec(item)?.[1]
+    if (id && href) manifest.set(id, resolvePartPath(packagePath, decodeURIComponent(decodeEntities(href))))
+  }
+
+  const title = /<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/.exec(packageXml)?.[1]
+  const sections: string[] = title ? [`# ${decodeEntities(title).trim()}`] : []
+  for (const itemRef of packageXml.matchAll(/<itemref\b[^>]*\bidref="([^"]+)"/g)) {
+    const chapterPath = manifest.get(itemRef[1])
+    const chapter = chapterPath ? await readZipText(zip, chapterPath) : null
+    if (chapter) {
+      const text = htmlToText(chapter)
+      if (text) sections.push(text)
+    }
+  }
+  return sections.join("\n\n")
+}
+
+// Pretty-printed so nested keys land on their own lines; JSON Lines and invalid JSON pass through as-is
+function extractJson(buffer: ArrayBuffer): string {
+  const text = decodeText(buffer)
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2)
+  } catch {
+    return text
+  }
+}
+
+const EXTRACTORS: Record<DocumentFileType, Extractor> = {
+  pdf: extractPdf,
+  docx: async (buffer) => {
+    // HTML rather than raw text so Word headings come through as markdown headings
+    const mammoth = await import("mammoth")
+    const { value: html } = await mammoth.convertToHtml({ arrayBuffer: buffer })
+    return htmlToText(html)
+  },
+  pptx: extractPptx,
+  xlsx: extractXlsx,
+  epub: extractEpub,
+  rtf: async (buffer) => rtfToText(new TextDecoder("latin1").decode(buffer)),
+  html: async (buffer) => htmlToText(decodeText(buffer)),
+  markdown: async (buffer) => decodeText(buffer),
+  json: async (buffer) => extractJson(buffer),
+  yaml: async (buffer) => decodeText(buffer),
+  csv: async (buffer) => decodeText(buffer),
+  text: async (buffer) => decodeText(buffer),
+  code: async (buffer) => decodeText(buffer),
+}
+
+export async function extractDocumentText(buffer: ArrayBuffer, file: DetectedFileType): Promise<ExtractedText> {
+  const extracted = await EXTRACTORS[file.type](buffer, file)
+  return typeof extracted === "string" ? { text: extracted } : extracted
+}
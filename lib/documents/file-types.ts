@@ -0,0 +1,214 @@
+// Supported document formats, keyed by MIME type and file extension. The real format is worked out
+// from the file's leading bytes (detectFileType), since browsers report file.type from the extension
+// or not at all. Edge-safe: the upload route sniffs here, lib/documents/extractors.ts does the parsing.
+
+export type DocumentFileType =
+  | "pdf"
+  | "docx"
+  | "pptx"
+  | "xlsx"
+  | "epub"
+  | "rtf"
+  | "html"
+  | "markdown"
+  | "json"
+  | "yaml"
+  | "csv"
+  | "text"
+  | "code"
+
+interface FileTypeInfo {
+  label: string
+  mimeType: string // Canonical type stored on documents.mime_type; code files use text/x-<language>
+  extensions: string[]
+  aliases?: string[] // Other MIME types browsers and servers use for the format
+}
+
+export const FILE_TYPES: Record<DocumentFileType, FileTypeInfo> = {
+  pdf: { label: "PDF", mimeType: "application/pdf", extensions: ["pdf"] },
+  docx: {
+    label: "DOCX",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extensions: ["docx"],
+  },
+  pptx: {
+    label: "PPTX",
+    mimeType: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    extensions: ["pptx"],
+  },
+  xlsx: {
+    label: "XLSX",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extensions: ["xlsx"],
+  },
+  epub: { label: "EPUB", mimeType: "application/epub+zip", extensions: ["epub"] },
+  rtf: { label: "RTF", mimeType: "application/rtf", extensions: ["rtf"], aliases: ["text/rtf"] },
+  html: { label: "HTML", mimeType: "text/html", extensions: ["html", "htm", "xhtml"], aliases: ["application/xhtml+xml"] },
+  markdown: { label: "Markdown", mimeType: "text/markdown", extensions: ["md", "markdown", "mdx"], aliases: ["text/x-markdown"] },
+  json: { label: "JSON", mimeType: "application/json", extensions: ["json", "jsonl"] },
+  yaml: {
+    label: "YAML",
+    mimeType: "application/yaml",
+    extensions: ["yaml", "yml"],
+    aliases: ["text/yaml", "text/x-yaml", "application/x-yaml"],
+  },
+  csv: { label: "CSV", mimeType: "text/csv", extensions: ["csv", "tsv"], aliases: ["text/tab-separated-values"] },
+  text: { label: "Text", mimeType: "text/plain", extensions: ["txt", "text", "log"] },
+  code: { label: "Code", mimeType: "text/x-source", extensions: [] }, // Extensions come from CODE_LANGUAGES
+}
+
+// Source-code extension -> language, used for the stored MIME type and by the chunker
+export const CODE_LANGUAGES: Record<string, string> = {
+  ts: "typescript",
+  tsx: "tsx",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  rb: "ruby",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  kt: "kotlin",
+  scala: "scala",
+  swift: "swift",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  hpp: "cpp",
+  cs: "csharp",
+  php: "php",
+  sh: "shell",
+  bash: "shell",
+  sql: "sql",
+  css: "css",
+  scss: "scss",
+  vue: "vue",
+  svelte: "svelte",
+  toml: "toml",
+  xml: "xml",
+}
+
+export const SUPPORTED_EXTENSIONS: string[] = [
+  ...Object.values(FILE_TYPES).flatMap((info) => info.extensions),
+  ...Object.keys(CODE_LANGUAGES),
+]
+
+// For <input accept>, e.g. ".pdf,.docx,..."
+export const SUPPORTED_FILE_ACCEPT = SUPPORTED_EXTENSIONS.map((extension) => `.${extension}`).join(",")
+
+export const SUPPORTED_FORMATS_LABEL = "PDF, DOCX, PPTX, XLSX, EPUB, RTF, HTML, Markdown, JSON, YAML, CSV, text and source code"
+
+// How many leading bytes detectFileType needs to see
+export const SNIFF_BYTES = 8192
+
+export interface DetectedFileType {
+  type: DocumentFileType
+  mimeType: string
+  language?: string // Set for code files
+}
+
+export function getFileExtension(fileName: string): string | null {
+  const dot = fileName.lastIndexOf(".")
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : null
+}
+
+function fileTypeFromExtension(extension: string | null): DocumentFileType | null {
+  if (!extension) return null
+  if (CODE_LANGUAGES[extension]) return "code"
+  for (const [type, info] of Object.entries(FILE_TYPES)) {
+    if (info.extensions.includes(extension)) return type as DocumentFileType
+  }
+  return null
+}
+
+function fileTypeFromMimeType(mimeType: string | null | undefined): DocumentFileType | null {
+  const normalized = mimeType?.split(";")[0].trim().toLowerCase()
+  if (!normalized) return null
+  for (const [type, info] of Object.entries(FILE_TYPES)) {
+    if (info.mimeType === normalized || info.aliases?.includes(normalized)) return type as DocumentFileType
+  }
+  return normalized.startsWith("text/x-") ? "code" : null
+}
+
+function startsWith(bytes: Uint8Array, signature: string): boolean {
+  if (bytes.length < signature.length) return false
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[i] !== signature.charCodeAt(i)) return false
+  }
+  return true
+}
+
+// ZIP entry names are stored uncompressed in each local file header, so the first few entries show
+// which package this is. EPUB requires an uncompressed "mimetype" entry first.
+function sniffZipPackage(head: string, fallback: DocumentFileType | null): DocumentFileType | null {
+  if (head.includes("mimetypeapplication/epub+zip")) return "epub"
+  if (head.includes("word/")) return "docx"
+  if (head.includes("ppt/")) return "pptx"
+  if (head.includes("xl/")) return "xlsx"
+  // [Content_Types].xml alone doesn't say which Office format; trust a matching extension
+  return fallback === "docx" || fallback === "pptx" || fallback === "xlsx" || fallback === "epub" ? fallback : null
+}
+
+// Windows tools often export CSV and text as UTF-16 with a byte order mark; everything else is read as UTF-8
+export function detectTextEncoding(bytes: Uint8Array): "utf-8" | "utf-16le" | "utf-16be" {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le"
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be"
+  return "utf-8"
+}
+
+function looksBinary(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, Math.min(bytes.length, 1024))
+  return sample.includes(0)
+}
+
+function describe(type: DocumentFileType, extension: string | null): DetectedFileType {
+  if (type === "code") {
+    const language = (extension && CODE_LANGUAGES[extension]) || "plaintext"
+    return { type, mimeType: `text/x-${language}`, language }
+  }
+  return { type, mimeType: FILE_TYPES[type].mimeType }
+}
+
+// Works out a file's format from its leading bytes (at least SNIFF_BYTES when available), using the
+// name and declared MIME type only to tell apart text formats the bytes can't. Returns null for
+// formats we can't extract, including binaries renamed to a supported extension.
+export function detectFileType(
+  bytes: Uint8Array,
+  fileName: string,
+  declaredMimeType?: string | null,
+): DetectedFileType | null {
+  const extension = getFileExtension(fileName)
+  const claimed = fileTypeFromExtension(extension) ?? fileTypeFromMimeType(declaredMimeType)
+
+  if (startsWith(bytes, "%PDF-")) return describe("pdf", extension)
+  if (startsWith(bytes, "PK\x03\x04")) {
+    let head = ""
+    for (const byte of bytes) head += String.fromCharCode(byte)
+    const type = sniffZipPackage(head, claimed)
+    return type ? describe(type, extension) : null
+  }
+  if (startsWith(bytes, "{\\rtf")) return describe("rtf", extension)
+  // UTF-16 text has a null byte in every ASCII character, so only BOM-less files go through the binary check
+  const encoding = detectTextEncoding(bytes)
+  if (encoding === "utf-8" && looksBinary(bytes)) return null
+
+  // Plain text from here on: a claimed binary format whose bytes don't match is rejected
+  if (claimed && ["pdf", "docx", "pptx", "xlsx", "epub", "rtf"].includes(claimed)) return null
+
+  const text = new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, "").trimStart().slice(0, 512).toLowerCase()
+  if (!claimed || claimed === "text") {
+    if (text.startsWith("<!doctype html") || text.startsWith("<html")) return describe("html", extension)
+  }
+  return describe(claimed ?? "text", extension)
+}
+
+// Short label for a stored MIME type, e.g. "PPTX" or "Code (python)"
+export function getFileTypeLabel(mimeType: string | null | undefined): string {
+  const type = fileTypeFromMimeType(mimeType)
+  if (!type) return mimeType?.split("/")[1] || "N/A"
+  if (type === "code") return `Code (${mimeType!.slice("text/x-".length)})`
+  return FILE_TYPES[type].label
+}
@@ -0,0 +1,34 @@
+// Heading breadcrumbs ("Setup > Networking > Timeouts") for chunks of structured documents. The
+// chunker writes the breadcrumb into the chunk's stored context and the chat route reads it back,
+// so both sides share the format here. Edge-safe.
+
+const HEADING_CONTEXT_PREFIX = "Headings: "
+const HEADING_SEPARATOR = " > "
+const MAX_HEADING_LENGTH = 80
+
+// Markdown-style heading line ("## Title"); extractors emit these for DOCX, HTML, PDF and slides
+export function parseHeadingLine(line: string): { level: number; title: string } | null {
+  const match = line.match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/)
+  if (!match) return null
+  const title = match[2].replace(/\s+/g, " ").trim()
+  if (!title) return null
+  return { level: match[1].length, title: title.length > MAX_HEADING_LENGTH ? `${title.slice(0, MAX_HEADING_LENGTH - 3)}...` : title }
+}
+
+// Replaces the heading at `level` and drops everything below it; skipped levels are left out
+export function updateHeadingTrail(trail: (string | undefined)[], level: number, title: string): (string | undefined)[] {
+  const next = trail.slice(0, level - 1)
+  next[level - 1] = title
+  return next
+}
+
+export function formatHeadingContext(trail: (string | undefined)[]): string | null {
+  const headings = trail.filter((heading): heading is string => !!heading)
+  return headings.length > 0 ? `${HEADING_CONTEXT_PREFIX}${headings.join(HEADING_SEPARATOR)}` : null
+}
+
+// The breadcrumb stored in a chunk's context, or null for chunks without one
+export function headingPathFromContext(context: string | null | undefined): string | null {
+  const part = context?.split(" | ").find((segment) => segment.startsWith(HEADING_CONTEXT_PREFIX))
+  return part ? part.slice(HEADING_CONTEXT_PREFIX.length) : null
+}
@@ -0,0 +1,245 @@
+// Page-aware PDF extraction on the pdf.js build that ships with pdf-parse. Text is rebuilt line by
+// line from positioned text items so that page boundaries survive, larger type and outline entries
+// become markdown headings, and column-aligned rows become "a | b | c" table rows.
+
+import type { ExtractedText, PageSpan } from "@/lib/documents/extractors"
+
+interface PositionedText {
+  text: string
+  x: number
+  y: number
+  width: number
+  fontSize: number
+}
+
+interface TextLine {
+  y: number
+  fontSize: number
+  cells: string[] // Runs separated by a wide horizontal gap
+  cellStarts: number[] // x of each cell
+}
+
+// Items whose baselines are this close (relative to font size) belong to the same line
+const SAME_LINE_TOLERANCE = 0.5
+// A horizontal gap wider than this many font sizes separates table cells rather than words
+const CELL_GAP = 1.5
+// Lines at least this much larger than body text are headings
+const HEADING_SIZE_RATIO = 1.15
+const MAX_HEADING_LENGTH = 120
+// Table cells are short; long runs side by side are columns of prose
+const MAX_TABLE_CELL_LENGTH = 40
+
+function fontSizeOf(transform: number[]): number {
+  return Math.hypot(transform[2], transform[3]) || Math.abs(transform[3]) || 1
+}
+
+function buildLines(items: PositionedText[]): TextLine[] {
+  // Top of the page first (PDF y grows upwards), then left to right
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x)
+
+  const groups: PositionedText[][] = []
+  for (const item of sorted) {
+    const current = groups[groups.length - 1]
+    if (current && Math.abs(current[0].y - item.y) <= current[0].fontSize * SAME_LINE_TOLERANCE) {
+      current.push(item)
+    } else {
+      groups.push([item])
+    }
+  }
+
+  return groups.map((group) => {
+    group.sort((a, b) => a.x - b.x)
+    const cells: string[] = []
+    const cellStarts: number[] = [group[0].x]
+    let cell = ""
+    let previousEnd: number | null = null
+    for (const item of group) {
+      const gap = previousEnd === null ? 0 : item.x - previousEnd
+      if (previousEnd !== null && gap > item.fontSize * CELL_GAP) {
+        cells.push(cell.trim())
+        cellStarts.push(item.x)
+        cell = ""
+      } else if (previousEnd !== null && gap > item.fontSize * 0.15 && !cell.endsWith(" ") && !item.text.startsWith(" ")) {
+        cell += " "
+      }
+      cell += item.text
+      previousEnd = item.x + item.width
+    }
+    cells.push(cell.trim())
+    // Justified text pads words with extra spaces
+    const kept = cells
+      .map((text, i) => ({ text: text.replace(/\s+/g, " "), x: cellStarts[i] }))
+      .filter((entry) => entry.text)
+    return {
+      y: group[0].y,
+      fontSize: Math.max(...group.map((item) => item.fontSize)),
+      cells: kept.map((entry) => entry.text),
+      cellStarts: kept.map((entry) => entry.x),
+    }
+  }).filter((line) => line.cells.length > 0)
+}
+
+// Two-column pages come out of buildLines as lines of two long cells. When enough lines look like
+// that, the page is re-read as a left column followed by a right column.
+function buildPageLines(items: PositionedText[]): TextLine[] {
+  const lines = buildLines(items)
+  const twoColumnLines = lines.filter(
+    (line) => line.cells.length === 2 && line.cells.every((cell) => cell.length > MAX_TABLE_CELL_LENGTH / 2),
+  )
+  if (twoColumnLines.length < Math.max(5, lines.length * 0.3)) return lines
+
+  const splits = twoColumnLines.map((line) => line.cellStarts[1]).sort((a, b) => a - b)
+  const splitX = splits[Math.floor(splits.length / 2)]
+  return [...buildLines(items.filter((item) => item.x < splitX - 1)), ...buildLines(items.filter((item) => item.x >= splitX - 1))]
+}
+
+function isTableCandidate(line: TextLine | undefined): boolean {
+  return !!line && line.cells.length >= 2 && line.cells.every((cell) => cell.length <= MAX_TABLE_CELL_LENGTH)
+}
+
+// The font size covering the most characters, i.e. body text
+function bodyFontSize(pages: TextLine[][]): number {
+  const characters = new Map<number, number>()
+  for (const line of pages.flat()) {
+    const size = Math.round(line.fontSize * 2) / 2
+    characters.set(size, (characters.get(size) ?? 0) + line.cells.join(" ").length)
+  }
+  let best = 0
+  let bestCount = -1
+  for (const [size, count] of characters) {
+    if (count > bestCount) {
+      best = size
+      bestCount = count
+    }
+  }
+  return best || 1
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+// Outline (bookmark) titles by 1-based page number, with their nesting depth
+async function loadOutline(doc: any): Promise<Map<number, { title: string; level: number }[]>> {
+  const byPage = new Map<number, { title: string; level: number }[]>()
+  const outline = await doc.getOutline().catch(() => null)
+
+  const visit = async (items: any[], level: number) => {
+    for (const item of items) {
+      try {
+        const destination = typeof item.dest === "string" ? await doc.getDestination(item.dest) : item.dest
+        if (Array.isArray(destination) && destination[0]) {
+          const page =
+            typeof destination[0] === "number" ? destination[0] + 1 : (await doc.getPageIndex(destination[0])) + 1
+          const entries = byPage.get(page) ?? []
+          entries.push({ title: item.title.trim(), level })
+          byPage.set(page, entries)
+        }
+      } catch {
+        // Broken destinations are common; the heading is just skipped
+      }
+      if (item.items?.length) await visit(item.items, level + 1)
+    }
+  }
+  if (outline) await visit(outline, 1)
+  return byPage
+}
+
+function renderPage(
+  lines: TextLine[],
+  bodySize: number,
+  outlineEntries: { title: string; level: number }[],
+): string {
+  const blocks: string[] = []
+  const outlineByTitle = new Map(outlineEntries.map((entry) => [normalizeTitle(entry.title), entry]))
+  const matchedOutline = new Set<string>()
+  let paragraph: string[] = []
+  let table: string[] = []
+  let previous: TextLine | null = null
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push(paragraph.join("\n"))
+    paragraph = []
+  }
+  const flushTable = () => {
+    // A single multi-cell line is more likely a header/footer or spaced-out text than a table
+    if (table.length >= 2) blocks.push(table.join("\n"))
+    else if (table.length === 1) paragraph.push(table[0].split(" | ").join(" "))
+    table = []
+  }
+
+  for (const [i, line] of lines.entries()) {
+    const text = line.cells.join(" ")
+    const outlineEntry = outlineByTitle.get(normalizeTitle(text))
+    const isLargeText = line.fontSize >= bodySize * HEADING_SIZE_RATIO && text.length <= MAX_HEADING_LENGTH
+    const isTableRow = isTableCandidate(line) && (table.length > 0 || isTableCandidate(lines[i + 1]))
+
+    if (outlineEntry || isLargeText) {
+      flushTable()
+      flushParagraph()
+      const level = outlineEntry
+        ? Math.min(outlineEntry.level, 6)
+        : line.fontSize >= bodySize * 1.6 ? 1 : line.fontSize >= bodySize * 1.3 ? 2 : 3
+      if (outlineEntry) matchedOutline.add(normalizeTitle(text))
+      blocks.push(`${"#".repeat(level)} ${text}`)
+    } else if (isTableRow) {
+      flushParagraph()
+      table.push(line.cells.join(" | "))
+    } else {
+      flushTable()
+      // A vertical gap wider than a line and a half starts a new paragraph
+      if (previous && previous.y - line.y > Math.max(previous.fontSize, line.fontSize) * 1.8) flushParagraph()
+      paragraph.push(text)
+    }
+    previous = line
+  }
+  flushTable()
+  flushParagraph()
+
+  // Outline entries pointing at this page whose text we couldn't find still mark the section start
+  const unmatched = outlineEntries.filter((entry) => !matchedOutline.has(normalizeTitle(entry.title)))
+  return [...unmatched.map((entry) => `${"#".repeat(Math.min(entry.level, 6))} ${entry.title}`), ...blocks].join("\n\n")
+}
+
+export async function extractPdf(buffer: ArrayBuffer): Promise<ExtractedText> {
+  const pdfjs = await import("pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js")
+  // No Worker in Node.js, so pdf.js parses in-process with its fake worker
+  const doc = await pdfjs.getDocument(new Uint8Array(buffer))
+
+  try {
+    const pageLines: TextLine[][] = []
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber)
+      const content = await page.getTextContent({ normalizeWhitespace: true })
+      pageLines.push(
+        buildPageLines(
+          content.items
+            .filter((item) => item.str.length > 0)
+            .map((item) => ({
+              text: item.str,
+              x: item.transform[4],
+              y: item.transform[5],
+              width: item.width,
+              fontSize: fontSizeOf(item.transform),
+            })),
+        ),
+      )
+    }
+
+    const outline = await loadOutline(doc)
+    const bodySize = bodyFontSize(pageLines)
+
+    let text = ""
+    const pages: PageSpan[] = []
+    for (const [index, lines] of pageLines.entries()) {
+      const pageText = renderPage(lines, bodySize, outline.get(index + 1) ?? [])
+      if (!pageText) continue
+      if (text) text += "\n\n"
+      pages.push({ page: index + 1, start: text.length, end: text.length + pageText.length })
+      text += pageText
+    }
+    return { text, pages }
+  } finally {
+    await doc.destroy()
+  }
+}
@@ -0,0 +1,1332 @@
+import { createHash } from "crypto"
+import { createSupabaseAdminClient } from "@/lib/supabase/admin"
+import { recordUsage } from "@/lib/usage/ledger"
+import type { Database } from "@/types/database"
+import {
+  EmbeddingRateLimitError,
+  getEmbeddingProviderUnavailableReason,
+  toStoredEmbedding,
+  type EmbeddingProvider,
+} from "@/lib/embeddings/provider"
+import { getEmbeddingProvider } from "@/lib/embeddings/providers"
+import { detectFileType, SNIFF_BYTES } from "@/lib/documents/file-types"
+import { extractDocumentText, type PageSpan } from "@/lib/documents/extractors"
+import { chunkTable } from "@/lib/documents/tabular"
+import { chunkCode } from "@/lib/documents/code-chunker"
+import { formatHeadingContext, parseHeadingLine, updateHeadingTrail } from "@/lib/documents/headings"
+import {
+  CONTEXTUALIZER_MODEL,
+  generateChunkContexts,
+  type ChunkSpan,
+  type ContextualizationUsage,
+} from "@/lib/documents/contextualizer"
+import { getAnthropicApiKey } from "@/lib/api-keys"
+import Anthropic from "@anthropic-ai/sdk"
+
+// ACCURATE token counting using gpt-tokenizer (matches OpenAI exactly)
+// npm install gpt-tokenizer
+let gptTokenizer: any = null
+
+async function getTokenizer() {
+  if (!gptTokenizer) {
+    // Import gpt-tokenizer for cl100k_base encoding (used by text-embedding-3-small)
+    const { encode } = await import('gpt-tokenizer/encoding/cl100k_base')
+    gptTokenizer = { encode }
+  }
+  return gptTokenizer
+}
+
+// ACCURATE token counting - matches OpenAI exactly
+async function getAccurateTokenCount(text: string): Promise<number> {
+  const tokenizer = await getTokenizer()
+  return tokenizer.encode(text).length
+}
+
+// A chunk before it is embedded; metadata is merged into document_chunks.metadata
+interface DocumentChunkDraft {
+  content: string
+  context: string
+  tokens: number
+  semanticBoundary: string
+  chunkType: string
+  metadata?: Record<string, unknown>
+}
+
+// ADAPTIVE configuration based on file size and content type
+class AdaptiveConfig {
+  static getConfig(textLength: number, contentType: 'CODE' | 'NATURAL_LANGUAGE' | 'MIXED' | 'UNKNOWN') {
+    // Small files (< 50K chars): Prioritize accuracy
+    if (textLength < 50000) {
+      return {
+        MAX_CHUNK_TOKENS: 400,
+        OVERLAP_TOKENS: 80,
+        MAX_PARALLEL_BATCHES: 2,
+        BATCH_DELAY_MS: 500,
+        PROCESSING_STRATEGY: 'ACCURACY_FIRST'
+      }
+    }
+    
+    // Medium files (50K - 500K chars): Balance accuracy and speed
+    if (textLength < 500000) {
+      return {
+        MAX_CHUNK_TOKENS: 350,
+        OVERLAP_TOKENS: 60,
+        MAX_PARALLEL_BATCHES: 3,
+        BATCH_DELAY_MS: 300,
+        PROCESSING_STRATEGY: 'BALANCED'
+      }
+    }
+    
+    // Large files (500K - 2M chars): Prioritize speed
+    if (textLength < 2000000) {
+      return {
+        MAX_CHUNK_TOKENS: 300,
+        OVERLAP_TOKENS: 50,
+        MAX_PARALLEL_BATCHES: 4,
+        BATCH_DELAY_MS: 200,
+        PROCESSING_STRATEGY: 'SPEED_OPTIMIZED'
+      }
+    }
+    
+    // Massive files (2M+ chars): Maximum parallelization
+    return {
+      MAX_CHUNK_TOKENS: 250,
+      OVERLAP_TOKENS: 40,
+      MAX_PARALLEL_BATCHES: 5,
+      BATCH_DELAY_MS: 150,
+      PROCESSING_STRATEGY: 'MAXIMUM_THROUGHPUT'
+    }
+  }
+}
+
+// INTELLIGENT content type detection
+class ContentAnalyzer {
+  static analyzeContent(text: string): {
+    type: 'CODE' | 'NATURAL_LANGUAGE' | 'MIXED' | 'UNKNOWN',
+    confidence: number,
+    characteristics: {
+      codeRatio: number,
+      naturalLanguageRatio: number,
+      structureComplexity: number
+    }
+  } {
+    const sampleSize = Math.min(10000, text.length) // Analyze first 10K chars for speed
+    const sample = text.slice(0, sampleSize)
+    
+    // Code indicators with weights
+    const codePatterns = [
+      { pattern: /\b(?:function|class|import|export|const|let|var|if|else|for|while|return|def|async|await)\b/g, weight: 3 },
+      { pattern: /[{}();[\]]/g, weight: 2 },
+      { pattern: /[=<>!&|+\-*/%^~]/g, weight: 1 },
+      { pattern: /\/\*[\s\S]*?\*\/|\/\/.*$/gm, weight: 2 }, // Comments
+      { pattern: /^\s*#.*$/gm, weight: 2 }, // Hash comments
+      { pattern: /\b(?:int|str|bool|float|double|char|void|null|undefined|true|false)\b/g, weight: 2 }
+    ]
+    
+    // Natural language indicators
+    const naturalLanguagePatterns = [
+      { pattern: /\b(?:the|and|or|but|however|therefore|because|although|moreover|furthermore)\b/gi, weight: 2 },
+      { pattern: /[.!?]+\s+[A-Z]/g, weight: 3 }, // Sentence boundaries
+      { pattern: /\b(?:is|are|was|were|will|would|could|should|can|may|might)\b/gi, weight: 1 },
+      { pattern: /[,;:]\s/g, weight: 1 }
+    ]
+    
+    let codeScore = 0
+    let nlScore = 0
+    
+    // Calculate code score
+    for (const { pattern, weight } of codePatterns) {
+      const matches = sample.match(pattern) || []
+      codeScore += matches.length * weight
+    }
+    
+    // Calculate natural language score
+    for (const { pattern, weight } of naturalLanguagePatterns) {
+      const matches = sample.match(pattern) || []
+      nlScore += matches.length * weight
+    }
+    
+    // Normalize scores
+    const totalChars = sample.length
+    const codeRatio = codeScore / totalChars
+    const naturalLanguageRatio = nlScore / totalChars
+    
+    // Structure complexity (indentation, nesting)
+    const lines = sample.split('\n')
+    const avgIndentation = lines.reduce((sum, line) => {
+      const leadingSpaces = line.match(/^\s*/)?.[0].length || 0
+      return sum + leadingSpaces
+    }, 0) / lines.length
+    
+    const structureComplexity = avgIndentation / 10 // Normalize
+    
+    // Determine content type
+    let type: 'CODE' | 'NATURAL_LANGUAGE' | 'MIXED' | 'UNKNOWN'
+    let confidence: number
+    
+    if (codeRatio > 0.3 && codeRatio > naturalLanguageRatio * 2) {
+      type = 'CODE'
+      confidence = Math.min(0.95, codeRatio / 0.3)
+    } else if (naturalLanguageRatio > 0.2 && naturalLanguageRatio > codeRatio * 2) {
+      type = 'NATURAL_LANGUAGE'
+      confidence = Math.min(0.95, naturalLanguageRatio / 0.2)
+    } else if (codeRatio > 0.1 || naturalLanguageRatio > 0.1) {
+      type = 'MIXED'
+      confidence = 0.7
+    } else {
+      type = 'UNKNOWN'
+      confidence = 0.3
+    }
+    
+    return {
+      type,
+      confidence,
+      characteristics: {
+        codeRatio,
+        naturalLanguageRatio,
+        structureComplexity
+      }
+    }
+  }
+}
+
+// SEMANTIC-AWARE chunking that preserves meaning and leverages hybrid search
+class SemanticChunker {
+  private config: any
+  private documentTitle: string
+  private contentAnalysis: any
+  // H1 > H2 > H3 breadcrumb at the current position; carried across sections of mixed documents
+  private headingTrail: (string | undefined)[] = []
+  private inCodeFence = false
+
+  constructor(config: any, documentTitle: string, contentAnalysis: any) {
+    this.config = config
+    this.documentTitle = documentTitle
+    this.contentAnalysis = contentAnalysis
+  }
+
+  async chunkIntelligently(text: string): Promise<DocumentChunkDraft[]> {
+    console.log(`🧠 Semantic chunking: ${text.length} chars, type: ${this.contentAnalysis.type}`)
+    
+    switch (this.contentAnalysis.type) {
+      case 'CODE':
+        return await this.chunkCode(text)
+      case 'NATURAL_LANGUAGE':
+        return await this.chunkNaturalLanguage(text)
+      case 'MIXED':
+        return await this.chunkMixed(text)
+      default:
+        return await this.chunkFallback(text)
+    }
+  }
+
+  private async chunkCode(text: string) {
+    const chunks: any[] = []
+    
+    // Split by logical code boundaries
+    const codeBlocks = this.extractCodeBlocks(text)
+    
+    let currentChunk: any[] = []
+    let currentTokens = 0
+    
+    for (const block of codeBlocks) {
+      const blockTokens = await getAccurateTokenCount(block.content)
+      
+      // If single block exceeds limit, split it
+      if (blockTokens > this.config.MAX_CHUNK_TOKENS) {
+        // Save current chunk if exists
+        if (currentChunk.length > 0) {
+          chunks.push(await this.createSemanticChunk(currentChunk, 'CODE_BLOCK_GROUP'))
+          currentChunk = []
+          currentTokens = 0
+        }
+        
+        // Split large block hierarchically
+        const subChunks = await this.splitLargeCodeBlock(block)
+        chunks.push(...subChunks)
+        continue
+      }
+      
+      // Check if adding block exceeds limit
+      if (currentTokens + blockTokens > this.config.MAX_CHUNK_TOKENS && currentChunk.length > 0) {
+        chunks.push(await this.createSemanticChunk(currentChunk, 'CODE_BLOCK_GROUP'))
+        
+        // Smart overlap: include related blocks
+        const overlapBlocks = this.selectOverlapBlocks(currentChunk, blockTokens)
+        currentChunk = [...overlapBlocks, block]
+        currentTokens = await getAccurateTokenCount(currentChunk.map(b => b.content).join('\n'))
+      } else {
+        currentChunk.push(block)
+        currentTokens += blockTokens
+      }
+    }
+    
+    // Add final chunk
+    if (currentChunk.length > 0) {
+      chunks.push(await this.createSemanticChunk(currentChunk, 'CODE_BLOCK_GROUP'))
+    }
+    
+    return chunks
+  }
+
+  private async chunkNaturalLanguage(text: string) {
+    const chunks: any[] = []
+    
+    // Extract semantic units (paragraphs, sections)
+    const semanticUnits = this.extractSemanticUnits(text)
+    
+    let currentChunk: any[] = []
+    let currentTokens = 0
+    
+    for (const unit of semanticUnits) {
+      const unitTokens = await getAccurateTokenCount(unit.content)
+      
+      // If single unit is too large, split by sentences
+      if (unitTokens > this.config.MAX_CHUNK_TOKENS) {
+        if (currentChunk.length > 0) {
+          chunks.push(await this.createSemanticChunk(currentChunk, 'PARAGRAPH_GROUP'))
+          currentChunk = []
+          currentTokens = 0
+        }
+        
+        const sentenceChunks = await this.splitBySentences(unit.content, unit.type, unit.headings)
+        chunks.push(...sentenceChunks)
+        continue
+      }
+      
+      if (currentTokens + unitTokens > this.config.MAX_CHUNK_TOKENS && currentChunk.length > 0) {
+        chunks.push(await this.createSemanticChunk(currentChunk, 'PARAGRAPH_GROUP'))
+        
+        // Contextual overlap for semantic coherence
+        const contextUnit = this.createContextualOverlap(currentChunk, unit)
+        currentChunk = contextUnit ? [contextUnit, unit] : [unit]
+        currentTokens = await getAccurateTokenCount(currentChunk.map(u => u.content).join('\n\n'))
+      } else {
+        currentChunk.push(unit)
+        currentTokens += unitTokens
+      }
+    }
+    
+    if (currentChunk.length > 0) {
+      chunks.push(await this.createSemanticChunk(currentChunk, 'PARAGRAPH_GROUP'))
+    }
+    
+    return chunks
+  }
+
+  private async chunkMixed(text: string) {
+    // Identify sections and chunk each appropriately
+    const sections = this.identifyMixedSections(text)
+    const chunks: any[] = []
+    
+    for (const section of sections) {
+      if (section.type === 'CODE') {
+        const codeChunks = await this.chunkCode(section.content)
+        chunks.push(...codeChunks)
+      } else {
+        const textChunks = await this.chunkNaturalLanguage(section.content)
+        chunks.push(...textChunks)
+      }
+    }
+    
+    return chunks
+  }
+
+  private async chunkFallback(text: string) {
+    // Safe fallback: sentence-based chunking
+    return await this.splitBySentences(text, 'UNKNOWN')
+  }
+
+  // HELPER METHODS
+
+  private extractCodeBlocks(text: string) {
+    const blocks: any[] = []
+    
+    // Split by function/class definitions
+    const functionRegex = /(?:^|\n)(?:export\s+)?(?:async\s+)?(?:function|class|interface|type|const|let|var)\s+\w+[\s\S]*?(?=\n(?:export\s+)?(?:async\s+)?(?:function|class|interface|type|const|let|var)\s+\w+|\n\s*$|$)/gm
+    
+    let lastIndex = 0
+    let match
+    
+    while ((match = functionRegex.exec(text)) !== null) {
+      // Add content before this block if significant
+      if (match.index > lastIndex) {
+        const beforeContent = text.slice(lastIndex, match.index).trim()
+        if (beforeContent.length > 50) {
+          blocks.push({
+            content: beforeContent,
+            type: 'CODE_FRAGMENT',
+            startLine: this.getLineNumber(text, lastIndex)
+          })
+        }
+      }
+      
+      blocks.push({
+        content: match[0].trim(),
+        type: 'FUNCTION_OR_CLASS',
+        startLine: this.getLineNumber(text, match.index)
+      })
+      
+      lastIndex = match.index + match[0].length
+    }
+    
+    // Add remaining content
+    if (lastIndex < text.length) {
+      const remainingContent = text.slice(lastIndex).trim()
+      if (remainingContent.length > 50) {
+        blocks.push({
+          content: remainingContent,
+          type: 'CODE_FRAGMENT',
+          startLine: this.getLineNumber(text, lastIndex)
+        })
+      }
+    }
+    
+    return blocks.length > 0 ? blocks : [{ content: text, type: 'SINGLE_BLOCK', startLine: 1 }]
+  }
+
+  private extractSemanticUnits(text: string) {
+    const units: any[] = []
+    
+    // Split by headers and paragraphs
+    const sections = text.split(/\n\s*\n/)
+    
+    for (let i = 0; i < sections.length; i++) {
+      const section = sections[i].trim()
+      // A unit belongs under the headings in effect after its own leading heading line
+      const lines = section.split('\n')
+      this.trackHeading(lines[0])
+      const headings = [...this.headingTrail]
+      for (const line of lines.slice(1)) this.trackHeading(line)
+      if (section.length < 20) continue // Skip very short sections
+      
+      // Detect section type
+      let type = 'PARAGRAPH'
+      if (section.match(/^#+\s/)) type = 'HEADER'
+      else if (section.match(/^\d+\./)) type = 'NUMBERED_LIST'
+      else if (section.match(/^[-*]\s/)) type = 'BULLET_LIST'
+      else if (section.length > 500) type = 'LONG_PARAGRAPH'
+      
+      units.push({
+        content: section,
+        type,
+        index: i,
+        headings
+      })
+    }
+    
+    return units
+  }
+
+  private trackHeading(line: string | undefined) {
+    if (line === undefined) return
+    if (/^\s*(```|~~~)/.test(line)) {
+      this.inCodeFence = !this.inCodeFence
+      return
+    }
+    const heading = this.inCodeFence ? null : parseHeadingLine(line)
+    if (heading) this.headingTrail = updateHeadingTrail(this.headingTrail, heading.level, heading.title)
+  }
+
+  private identifyMixedSections(text: string) {
+    const sections: any[] = []
+    const lines = text.split('\n')
+    
+    let currentSection = { content: '', type: 'UNKNOWN', startLine: 0 }
+    let consecutiveCodeLines = 0
+    let consecutiveTextLines = 0
+    
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+      
+      // Detect if line is code-like
+      const isCodeLine = /[{}();[\]=<>!&|+\-*/%]/.test(line) || 
+                        /^\s*(function|class|import|export|const|let|var|if|else|for|while|return)/.test(line)
+      
+      if (isCodeLine) {
+        consecutiveCodeLines++
+        consecutiveTextLines = 0
+        
+        if (currentSection.type === 'TEXT' && currentSection.content.trim()) {
+          sections.push({ ...currentSection })
+          currentSection = { content: line + '\n', type: 'CODE', startLine: i }
+        } else {
+          currentSection.content += line + '\n'
+          currentSection.type = 'CODE'
+        }
+      } else {
+        consecutiveTextLines++
+        consecutiveCodeLines = 0
+        
+        if (currentSection.type === 'CODE' && currentSection.content.trim()) {
+          sections.push({ ...currentSection })
+          currentSection = { content: line + '\n', type: 'TEXT', startLine: i }
+        } else {
+          currentSection.content += line + '\n'
+          currentSection.type = 'TEXT'
+        }
+      }
+    }
+    
+    if (currentSection.content.trim()) {
+      sections.push(currentSection)
+    }
+    
+    return sections
+  }
+
+  private async splitBySentences(text: string, sectionType: string, headings?: (string | undefined)[]) {
+    const headingContext = headings ? formatHeadingContext(headings) : null
+    const context = [`Document: ${this.documentTitle} (${sectionType})`, headingContext].filter(Boolean).join(' | ')
+    const chunks: any[] = []
+    const sentences = text.split(/(?<=[.!?])\s+/).filter(s => s.trim().length > 0)
+    
+    let currentChunk: string[] = []
+    let currentTokens = 0
+    
+    for (const sentence of sentences) {
+      const sentenceTokens = await getAccurateTokenCount(sentence)
+      
+      if (currentTokens + sentenceTokens > this.config.MAX_CHUNK_TOKENS && currentChunk.length > 0) {
+        const content = currentChunk.join(' ')
+        chunks.push({
+          content: content.trim(),
+          context,
+          tokens: await getAccurateTokenCount(content),
+          semanticBoundary: 'SENTENCE',
+          chunkType: sectionType
+        })
+        
+        // Smart overlap
+        const overlapSentences = Math.min(2, currentChunk.length)
+        currentChunk = currentChunk.slice(-overlapSentences)
+        currentTokens = await getAccurateTokenCount(currentChunk.join(' '))
+      }
+      
+      currentChunk.push(sentence)
+      currentTokens += sentenceTokens
+    }
+    
+    if (currentChunk.length > 0) {
+      const content = currentChunk.join(' ')
+      chunks.push({
+        content: content.trim(),
+        context,
+        tokens: await getAccurateTokenCount(content),
+        semanticBoundary: 'SENTENCE',
+        chunkType: sectionType
+      })
+    }
+    
+    return chunks
+  }
+
+  private async createSemanticChunk(units: any[], chunkType: string) {
+    const content = units.map(u => u.content).join(chunkType.includes('CODE') ? '\n' : '\n\n')
+    const tokens = await getAccurateTokenCount(content)
+    
+    // Rich context for better RAG performance
+    const contextParts = [
+      `Document: ${this.documentTitle}`,
+      `Type: ${this.contentAnalysis.type}`,
+      `Section: ${chunkType}`
+    ]
+    
+    // The headings the chunk's first unit sits under, so a chunk that never names its topic still carries it
+    const headings = units.find(u => u.headings)?.headings
+    const headingContext = headings ? formatHeadingContext(headings) : null
+    if (headingContext) {
+      contextParts.push(headingContext)
+    }
+    
+    if (units[0]?.type) {
+      contextParts.push(`Content: ${units[0].type}`)
+    }
+    
+    if (units[0]?.startLine) {
+      contextParts.push(`Lines: ${units[0].startLine}-${units[units.length - 1]?.startLine || units[0].startLine}`)
+    }
+    
+    return {
+      content: content.trim(),
+      context: contextParts.join(' | '),
+      tokens,
+      semanticBoundary: chunkType,
+      chunkType: this.contentAnalysis.type
+    }
+  }
+
+  private selectOverlapBlocks(currentChunk: any[], nextBlockTokens: number) {
+    const targetOverlapTokens = this.config.OVERLAP_TOKENS
+    let overlapTokens = 0
+    const overlapBlocks = []
+    
+    // Select from end of current chunk
+    for (let i = currentChunk.length - 1; i >= 0 && overlapTokens < targetOverlapTokens; i--) {
+      overlapBlocks.unshift(currentChunk[i])
+      overlapTokens += currentChunk[i].tokens || 50 // Estimate if not available
+    }
+    
+    return overlapBlocks
+  }
+
+  private createContextualOverlap(currentChunk: any[], nextUnit: any) {
+    // Create a summary or key context from current chunk
+    const lastUnit = currentChunk[currentChunk.length - 1]
+    if (!lastUnit) return null
+    
+    // For natural language, try to create semantic bridge
+    if (lastUnit.content.length < 200) {
+      return lastUnit
+    }
+    
+    // Extract last sentence or key phrase
+    const sentences = lastUnit.content.split(/[.!?]+/).filter(s => s.trim().length > 0)
+    const lastSentence = sentences[sentences.length - 1]
+    
+    if (lastSentence && lastSentence.length < 150) {
+      return {
+        content: lastSentence.trim(),
+        type: 'CONTEXT_BRIDGE',
+        index: lastUnit.index,
+        headings: lastUnit.headings
+      }
+    }
+    
+    return null
+  }
+
+  private async splitLargeCodeBlock(block: any) {
+    // Split large code blocks by logical boundaries
+    const lines = block.content.split('\n')
+    const chunks: any[] = []
+    
+    let currentChunk: string[] = []
+    let currentTokens = 0
+    
+    for (const line of lines) {
+      const lineTokens = await getAccurateTokenCount(line)
+      
+      if (currentTokens + lineTokens > this.config.MAX_CHUNK_TOKENS && currentChunk.length > 0) {
+        const content = currentChunk.join('\n')
+        chunks.push({
+          content: content.trim(),
+          context: `Document: ${this.documentTitle} | Code Block | Lines: ${block.startLine}`,
+          tokens: await getAccurateTokenCount(content),
+          semanticBoundary: 'CODE_LINES',
+          chunkType: 'CODE'
+        })
+        
+        currentChunk = [line]
+        currentTokens = lineTokens
+      } else {
+        currentChunk.push(line)
+        currentTokens += lineTokens
+      }
+    }
+    
+    if (currentChunk.length > 0) {
+      const content = currentChunk.join('\n')
+      chunks.push({
+        content: content.trim(),
+        context: `Document: ${this.documentTitle} | Code Block | Lines: ${block.startLine}`,
+        tokens: await getAccurateTokenCount(content),
+        semanticBoundary: 'CODE_LINES',
+        chunkType: 'CODE'
+      })
+    }
+    
+    return chunks
+  }
+
+  private getLineNumber(text: string, position: number): number {
+    return text.slice(0, position).split('\n').length
+  }
+}
+
+const PROGRESS_REPORT_INTERVAL_MS = 1000
+
+// Progress is best-effort: a failed write is logged and never fails the pipeline
+async function updateDocumentProgress(documentId: string, progress: Database["public"]["Tables"]["documents"]["Update"]) {
+  const { error } = await createSupabaseAdminClient().from("documents").update(progress).eq("id", documentId)
+  if (error) {
+    console.error(`⚠️ Failed to record progress for document ${documentId}:`, error.message)
+  }
+}
+
+const STORED_CHUNK_PAGE_SIZE = 1000 // PostgREST's default max rows per request
+
+// Contextualized chunks hash differently, so turning contextual retrieval on or off re-embeds them
+function hashChunkContent(content: string, contextualized = false): string {
+  const hash = createHash("sha256").update(content)
+  if (contextualized) hash.update("\u0000contextualized")
+  return hash.digest("hex")
+}
+
+interface StoredChunk {
+  contentHash: string
+  pageStart: number | null
+  pageEnd: number | null
+}
+
+// chunk_index -> stored hash and location for every chunk of the document already embedded by the project's current model
+async function loadEmbeddedChunks(documentId: string, embeddingModel: string): Promise<Map<number, StoredChunk>> {
+  const supabase = createSupabaseAdminClient()
+  const stored = new Map<number, StoredChunk>()
+  for (let from = 0; ; from += STORED_CHUNK_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("document_chunks")
+      .select("chunk_index, content_hash, page_start, page_end")
+      .eq("document_id", documentId)
+      .eq("embedding_model", embeddingModel)
+      .not("embedding", "is", null)
+      .order("chunk_index")
+      .range(from, from + STORED_CHUNK_PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(`Failed to load stored chunks: ${error.message}`)
+    }
+    for (const row of data || []) {
+      if (row.chunk_index !== null && row.content_hash) {
+        stored.set(row.chunk_index, { contentHash: row.content_hash, pageStart: row.page_start, pageEnd: row.page_end })
+      }
+    }
+    if (!data || data.length < STORED_CHUNK_PAGE_SIZE) return stored
+  }
+}
+
+// Words from each end of a chunk used to find it in the extracted text
+const LOCATE_PROBE_WORDS = 8
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Matches the words in order with any whitespace between them, since chunks rejoin units with their own separators
+function wordsPattern(words: string[]): RegExp {
+  return new RegExp(words.map(escapeRegExp).join("\\s+"), "g")
+}
+
+function pageAt(pages: PageSpan[], offset: number): number | null {
+  let page: number | null = null
+  for (const span of pages) {
+    if (span.start > offset) break
+    page = span.page
+  }
+  return page
+}
+
+// Where each chunk sits in the extracted text, or null when it can't be found. Chunks come out of the
+// chunker in document order (overlapping the previous one at most), so each is searched for from
+// where the previous one started.
+function locateChunks(chunks: { content: string }[], text: string): (ChunkSpan | null)[] {
+  let cursor = 0
+  return chunks.map((chunk) => {
+    const words = chunk.content.split(/\s+/).filter(Boolean)
+    if (words.length === 0) return null
+
+    const head = wordsPattern(words.slice(0, LOCATE_PROBE_WORDS))
+    head.lastIndex = cursor
+    const headMatch = head.exec(text)
+    if (!headMatch) return null
+    cursor = headMatch.index
+
+    const tail = wordsPattern(words.slice(-LOCATE_PROBE_WORDS))
+    tail.lastIndex = headMatch.index
+    const tailMatch = tail.exec(text)
+    const end = tailMatch ? tailMatch.index + tailMatch[0].length : headMatch.index + chunk.content.length
+    return { start: headMatch.index, end }
+  })
+}
+
+// First and last page of a located chunk
+function chunkPages(span: ChunkSpan | null, pages: PageSpan[] | undefined) {
+  if (!span || !pages) return { pageStart: null, pageEnd: null }
+  return { pageStart: pageAt(pages, span.start), pageEnd: pageAt(pages, span.end - 1) }
+}
+
+// Chunks past the new end of the document (it got shorter) or without a position can't be matched
+async function removeOrphanChunks(documentId: string, chunkCount: number) {
+  const supabase = createSupabaseAdminClient()
+  const { error } = await supabase
+    .from("document_chunks")
+    .delete()
+    .eq("document_id", documentId)
+    .or(`chunk_index.is.null,chunk_index.gte.${chunkCount}`)
+  if (error) {
+    throw new Error(`Failed to remove orphaned chunks: ${error.message}`)
+  }
+}
+
+const MAX_BATCH_ATTEMPTS = 3
+const MAX_RATE_LIMIT_RETRIES = 5
+// A longer retry-after usually means an exhausted quota: fail the job and let the worker's backoff take over
+const MAX_RATE_LIMIT_WAIT_MS = 60000
+const DEFAULT_RATE_LIMIT_WAIT_MS = 5000 // When a 429 carries no retry-after header
+// Each row carries a 1536-float vector (~30KB of JSON), so upserts are split to keep request bodies small
+const MAX_ROWS_PER_UPSERT = 50
+
+// Round trips and time spent by one embedding run
+export interface EmbeddingThroughput {
+  chunks: number
+  embeddingRequests: number
+  upsertRequests: number
+  rateLimitWaits: number
+  rateLimitWaitMs: number
+  elapsedMs: number
+  chunksPerSecond: number
+  roundTripsSaved: number // Versus one embedding request and one insert per chunk
+}
+
+// Packs chunks, in order, into embedding requests within the provider's input and token limits
+function packEmbeddingBatches(chunks: any[], embeddingProvider: EmbeddingProvider): any[][] {
+  const batches: any[][] = []
+  let current: any[] = []
+  let currentTokens = 0
+  for (const chunk of chunks) {
+    const chunkTokens = chunk.tokens + (chunk.generatedContextTokens || 0)
+    const isFull =
+      current.length >= embeddingProvider.maxBatchInputs || currentTokens + chunkTokens > embeddingProvider.maxBatchTokens
+    if (current.length > 0 && isFull) {
+      batches.push(current)
+      current = []
+      currentTokens = 0
+    }
+    current.push(chunk)
+    currentTokens += chunkTokens
+  }
+  if (current.length > 0) batches.push(current)
+  return batches
+}
+
+// ULTRA-HIGH-PERFORMANCE parallel processor
+class UltraHighPerformanceProcessor {
+  private supabase = createSupabaseAdminClient()
+  private document: any
+  private config: any
+  private embeddingProvider: EmbeddingProvider
+  private signal?: AbortSignal
+  embeddingTokens = 0 // Billed by the provider, including chunks whose insert later failed
+
+  private lastProgressReport = 0
+  // Set from a 429's retry-after; every batch waits it out, since parallel requests share the limit
+  private rateLimitedUntil = 0
+  private stats = { embeddingRequests: 0, upsertRequests: 0, rateLimitWaits: 0, rateLimitWaitMs: 0 }
+
+  constructor(document: any, config: any, embeddingProvider: EmbeddingProvider, signal?: AbortSignal) {
+    this.document = document
+    this.config = config
+    this.embeddingProvider = embeddingProvider
+    this.signal = signal
+  }
+
+  // Writes chunks_processed to the document row at most once a second (plus the final count)
+  private async reportProgress(processedCount: number, isFinal: boolean) {
+    if (!isFinal && Date.now() - this.lastProgressReport < PROGRESS_REPORT_INTERVAL_MS) return
+    this.lastProgressReport = Date.now()
+    await updateDocumentProgress(this.document.id, { chunks_processed: processedCount })
+  }
+
+  // alreadyEmbedded: chunks skipped because an earlier run stored them, counted toward progress
+  async processAllChunks(chunks: any[], alreadyEmbedded = 0): Promise<EmbeddingThroughput> {
+    // Generated context is embedded ahead of the chunk, so it can still push an input past the limit
+    const truncated = chunks.filter(
+      (chunk) => chunk.tokens + (chunk.generatedContextTokens || 0) > this.embeddingProvider.maxInputTokens,
+    ).length
+    if (truncated > 0) {
+      console.warn(
+        `⚠️ ${truncated} chunks exceed ${this.embeddingProvider.model}'s ${this.embeddingProvider.maxInputTokens}-token input; their tails will not be embedded`,
+      )
+    }
+    const batches = packEmbeddingBatches(chunks, this.embeddingProvider)
+    console.log(`🚀 ULTRA-HIGH-PERFORMANCE: Processing ${chunks.length} chunks in ${batches.length} embedding requests`)
+    console.log(
+      `📊 Limits: ${this.embeddingProvider.maxBatchInputs} inputs / ${this.embeddingProvider.maxBatchTokens} tokens per request, ${this.config.MAX_PARALLEL_BATCHES} in parallel`,
+    )
+
+    const startTime = Date.now()
+    let processedCount = 0
+
+    // Create batch groups for parallel processing
+    const batchGroups: any[][][] = []
+    for (let i = 0; i < batches.length; i += this.config.MAX_PARALLEL_BATCHES) {
+      batchGroups.push(batches.slice(i, i + this.config.MAX_PARALLEL_BATCHES))
+    }
+
+    // Process batch groups sequentially, batches within group in parallel
+    for (let groupIndex = 0; groupIndex < batchGroups.length; groupIndex++) {
+      const batchGroup = batchGroups[groupIndex]
+      if (this.signal?.aborted) {
+        throw new Error("Processing aborted: the job lease was lost")
+      }
+      console.log(`⚡ Processing batch group ${groupIndex + 1}/${batchGroups.length} (${batchGroup.length} parallel batches)`)
+
+      // Process all batches in group simultaneously
+      const batchPromises = batchGroup.map(async (batch, batchIndex) => {
+        const globalBatchIndex = groupIndex * this.config.MAX_PARALLEL_BATCHES + batchIndex
+        return await this.processBatchWithRetries(batch, globalBatchIndex)
+      })
+
+      try {
+        const results = await Promise.all(batchPromises)
+        const groupProcessed = results.reduce((sum, count) => sum + count, 0)
+        processedCount += groupProcessed
+
+        const progress = Math.round((processedCount / chunks.length) * 100)
+        const elapsed = Date.now() - startTime
+        const rate = Math.round((processedCount / elapsed) * 1000)
+
+        console.log(`📊 Progress: ${processedCount}/${chunks.length} (${progress}%) | Rate: ${rate} chunks/sec`)
+        await this.reportProgress(alreadyEmbedded + processedCount, groupIndex === batchGroups.length - 1)
+
+        // Adaptive delay based on performance
+        if (groupIndex < batchGroups.length - 1) {
+          const adaptiveDelay = this.calculateAdaptiveDelay(rate, this.config.PROCESSING_STRATEGY)
+          if (adaptiveDelay > 0) {
+            await new Promise(resolve => setTimeout(resolve, adaptiveDelay))
+          }
+        }
+
+      } catch (error) {
+        console.error(`❌ Batch group ${groupIndex + 1} failed:`, error)
+        throw error
+      }
+    }
+
+    const elapsedMs = Date.now() - startTime
+    const throughput: EmbeddingThroughput = {
+      chunks: processedCount,
+      ...this.stats,
+      elapsedMs,
+      chunksPerSecond: Math.round((processedCount / Math.max(elapsedMs, 1)) * 1000),
+      roundTripsSaved: processedCount * 2 - this.stats.embeddingRequests - this.stats.upsertRequests,
+    }
+    console.log(`🎉 ULTRA-PERFORMANCE COMPLETE: ${processedCount} chunks in ${elapsedMs}ms (${throughput.chunksPerSecond} chunks/sec)`)
+    console.log(
+      `📉 ${throughput.embeddingRequests} embedding + ${throughput.upsertRequests} upsert requests, ${throughput.roundTripsSaved} fewer round trips than one per chunk`,
+    )
+    if (throughput.rateLimitWaits > 0) {
+      console.log(`⏳ Rate limited ${throughput.rateLimitWaits} times, waited ${throughput.rateLimitWaitMs}ms`)
+    }
+
+    return throughput
+  }
+
+  private calculateAdaptiveDelay(currentRate: number, strategy: string): number {
+    // Adjust delay based on current performance and strategy
+    switch (strategy) {
+      case 'ACCURACY_FIRST':
+        return this.config.BATCH_DELAY_MS
+      case 'BALANCED':
+        return currentRate > 10 ? this.config.BATCH_DELAY_MS / 2 : this.config.BATCH_DELAY_MS
+      case 'SPEED_OPTIMIZED':
+        return currentRate > 20 ? 50 : this.config.BATCH_DELAY_MS / 2
+      case 'MAXIMUM_THROUGHPUT':
+        return currentRate > 30 ? 0 : 100
+      default:
+        return this.config.BATCH_DELAY_MS
+    }
+  }
+
+  private async waitForRateLimit() {
+    const waitMs = this.rateLimitedUntil - Date.now()
+    if (waitMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitMs))
+    }
+  }
+
+  // A 429 waits exactly as long as the provider asks and doesn't use up an attempt;
+  // other failures back off exponentially
+  private async processBatchWithRetries(batch: any[], batchIndex: number): Promise<number> {
+    let attempt = 0
+    let rateLimitRetries = 0
+
+    while (true) {
+      await this.waitForRateLimit()
+      try {
+        return await this.processBatch(batch)
+      } catch (error) {
+        if (error instanceof EmbeddingRateLimitError && rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+          const waitMs = error.retryAfterMs ?? DEFAULT_RATE_LIMIT_WAIT_MS
+          if (waitMs <= MAX_RATE_LIMIT_WAIT_MS) {
+            rateLimitRetries++
+            this.stats.rateLimitWaits++
+            this.stats.rateLimitWaitMs += waitMs
+            this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + waitMs)
+            console.warn(`⏳ Batch ${batchIndex} rate limited, retrying in ${waitMs}ms`)
+            continue
+          }
+        }
+
+        attempt++
+        console.error(`❌ Batch ${batchIndex} attempt ${attempt}/${MAX_BATCH_ATTEMPTS} failed:`, (error as Error).message)
+        if (attempt >= MAX_BATCH_ATTEMPTS) {
+          throw error
+        }
+
+        // Exponential backoff
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  // One embedding request for the whole batch, then bulk upserts of its rows
+  private async processBatch(batch: any[]): Promise<number> {
+    // Contextual retrieval embeds the generated context together with the chunk
+    const { embeddings, tokens } = await this.embeddingProvider.embedBatch(
+      batch.map((chunk) => (chunk.generatedContext ? `${chunk.generatedContext}\n\n${chunk.content}` : chunk.content)),
+    )
+    this.stats.embeddingRequests++
+    this.embeddingTokens += tokens
+    if (embeddings.length !== batch.length) {
+      throw new Error(`Embedding provider returned ${embeddings.length} vectors for ${batch.length} inputs`)
+    }
+
+    // Store with enhanced metadata for hybrid search. Upserting by position makes a retried
+    // batch overwrite its earlier partial writes instead of duplicating them.
+    const rows = batch.map((chunk, i) => ({
+      document_id: this.document.id,
+      user_id: this.document.user_id,
+      project_id: this.document.project_id,
+      content: chunk.content,
+      context: chunk.context,
+      generated_context: chunk.generatedContext,
+      embedding: toStoredEmbedding(embeddings[i]),
+      embedding_model: this.embeddingProvider.model,
+      chunk_index: chunk.chunkIndex,
+      page_start: chunk.pageStart,
+      page_end: chunk.pageEnd,
+      tokens: chunk.tokens,
+      content_hash: chunk.contentHash,
+      // Enhanced metadata for better search
+      metadata: {
+        ...chunk.metadata,
+        semanticBoundary: chunk.semanticBoundary,
+        chunkType: chunk.chunkType,
+        contentLength: chunk.content.length
+      }
+    }))
+
+    for (let i = 0; i < rows.length; i += MAX_ROWS_PER_UPSERT) {
+      const { error: insertError } = await this.supabase
+        .from("document_chunks")
+        .upsert(rows.slice(i, i + MAX_ROWS_PER_UPSERT), { onConflict: "document_id,chunk_index" })
+      this.stats.upsertRequests++
+      if (insertError) {
+        throw new Error(`Database insert failed: ${insertError.message}`)
+      }
+    }
+
+    return batch.length
+  }
+}
+
+async function recordEmbeddingUsage(
+  document: { user_id: string; project_id: string } | null,
+  processor: UltraHighPerformanceProcessor | null,
+  embeddingProvider: EmbeddingProvider,
+) {
+  if (!document || !processor) return
+  await recordUsage({
+    userId: document.user_id,
+    projectId: document.project_id,
+    model: embeddingProvider.model,
+    kind: "document_embedding",
+    inputTokens: processor.embeddingTokens,
+  })
+}
+
+export interface DocumentProcessingResult {
+  chunksCreated: number
+  textLength: number
+  processingTimeMs: number
+  strategy: string
+  embedding: EmbeddingThroughput
+  contextualization: ContextualizationUsage | null // Null when contextual retrieval is off or had nothing to do
+}
+
+// Writes Claude-generated context onto the pending chunks of a project with contextual retrieval on.
+// Chunks whose context couldn't be generated keep a plain hash so the next run tries them again.
+async function contextualizeChunks(
+  document: { id: string; user_id: string; project_id: string; name: string },
+  text: string,
+  chunks: any[],
+  spans: (ChunkSpan | null)[],
+  alreadyEmbedded: number,
+  signal?: AbortSignal,
+): Promise<ContextualizationUsage | null> {
+  const apiKey = await getAnthropicApiKey(document.user_id, createSupabaseAdminClient())
+  if (!apiKey) {
+    console.warn(`⚠️ Contextual retrieval is on but no Anthropic API key is configured; embedding chunks without context`)
+    for (const chunk of chunks) chunk.contentHash = hashChunkContent(chunk.content)
+    return null
+  }
+
+  console.log(`🪄 Generating context for ${chunks.length} chunks with ${CONTEXTUALIZER_MODEL}...`)
+  const { contexts, usage } = await generateChunkContexts(
+    text,
+    chunks,
+    chunks.map((chunk) => spans[chunk.chunkIndex]),
+    {
+      anthropic: new Anthropic({ apiKey, maxRetries: 4 }),
+      documentTitle: document.name,
+      signal,
+      onProgress: (contextualized) =>
+        updateDocumentProgress(document.id, { chunks_processed: alreadyEmbedded + contextualized }),
+    },
+  )
+  // Billed whether or not the run finishes
+  await recordUsage({
+    userId: document.user_id,
+    projectId: document.project_id,
+    model: CONTEXTUALIZER_MODEL,
+    kind: "chunk_context",
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cacheCreationInputTokens: usage.cacheCreationInputTokens,
+    cacheReadInputTokens: usage.cacheReadInputTokens,
+  })
+  if (signal?.aborted) {
+    throw new Error("Processing aborted: the job lease was lost")
+  }
+
+  for (const [i, chunk] of chunks.entries()) {
+    const context = contexts[i]
+    chunk.generatedContext = context
+    chunk.generatedContextTokens = context ? await getAccurateTokenCount(context) : 0
+    if (!context) chunk.contentHash = hashChunkContent(chunk.content)
+  }
+  console.log(
+    `✅ Context for ${usage.chunks}/${chunks.length} chunks (${usage.failed} failed) | ${usage.inputTokens} input, ${usage.cacheReadInputTokens} cache-read, ${usage.cacheCreationInputTokens} cache-write, ${usage.outputTokens} output tokens`,
+  )
+  return usage
+}
+
+// MAIN ULTIMATE PIPELINE
+// Called by the document job worker (lib/jobs/document-worker.ts). Throws on failure and leaves the
+// final document status to the worker, which decides whether the job is retried.
+export async function processDocument(documentId: string, signal?: AbortSignal): Promise<DocumentProcessingResult> {
+  const startTime = Date.now()
+  console.log("🚀 ULTIMATE PRODUCTION MODE: Starting...")
+
+  const supabase = createSupabaseAdminClient()
+
+  // 1. Fetch document and update status in parallel
+  console.log(`📄 Fetching document ${documentId}...`)
+  const [documentResult, _] = await Promise.all([
+    supabase
+      .from("documents")
+      .select("id, file_url, mime_type, user_id, project_id, name, file_size")
+      .eq("id", documentId)
+      .single(),
+    supabase
+      .from("documents")
+      .update({
+        status: "processing",
+        processing_stage: "downloading",
+        chunks_total: 0,
+        chunks_processed: 0,
+        processing_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", documentId)
+  ])
+
+  const { data: document, error: docError } = documentResult
+  if (docError || !document) {
+    throw new Error(`Document not found: ${docError?.message}`)
+  }
+
+  console.log(`✅ Document: ${document.name} (${Math.round((document.file_size || 0) / 1024)}KB)`)
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("embedding_provider, contextual_retrieval")
+    .eq("id", document.project_id)
+    .single()
+  if (projectError || !project) {
+    throw new Error(`Project not found: ${projectError?.message}`)
+  }
+  const embeddingProvider = getEmbeddingProvider(project.embedding_provider)
+  const unavailableReason = getEmbeddingProviderUnavailableReason(embeddingProvider.id)
+  if (unavailableReason) {
+    throw new Error(`Embedding provider "${embeddingProvider.id}" is unavailable: ${unavailableReason}`)
+  }
+  console.log(`🧮 Embeddings: ${embeddingProvider.model} (${embeddingProvider.dimensions} dims)`)
+
+  let processor: UltraHighPerformanceProcessor | null = null
+
+  try {
+    // 2. Download and extract text
+    console.log(`📥 Downloading ${document.file_url}...`)
+    const fileBuffer = await downloadFile(document.file_url)
+
+    await updateDocumentProgress(documentId, { processing_stage: "extracting" })
+    const fileType = detectFileType(new Uint8Array(fileBuffer, 0, Math.min(fileBuffer.byteLength, SNIFF_BYTES)), document.name, document.mime_type)
+    if (!fileType) {
+      throw new Error(`Unsupported file type: ${document.mime_type || document.name}`)
+    }
+    console.log(`📄 Extracting text as ${fileType.type} (${fileType.mimeType})...`)
+    const { text: textContent, pages } = await extractDocumentText(fileBuffer, fileType)
+    console.log(`✅ Extracted ${textContent.length} characters`)
+
+    if (!textContent.trim()) {
+      throw new Error("No text content extracted")
+    }
+
+    // 3. Analyze content and get adaptive configuration
+    console.log(`🧠 Analyzing content...`)
+    const contentAnalysis = ContentAnalyzer.analyzeContent(textContent)
+    const config = AdaptiveConfig.getConfig(textContent.length, contentAnalysis.type)
+    // Chunks never exceed what the embedding model reads, or their tails would go unembedded
+    if (config.MAX_CHUNK_TOKENS > embeddingProvider.maxInputTokens) {
+      config.MAX_CHUNK_TOKENS = embeddingProvider.maxInputTokens
+      config.OVERLAP_TOKENS = Math.min(config.OVERLAP_TOKENS, Math.floor(embeddingProvider.maxInputTokens / 4))
+    }
+    
+    console.log(`📊 Content: ${contentAnalysis.type} (${Math.round(contentAnalysis.confidence * 100)}% confidence)`)
+    console.log(`⚙️ Strategy: ${config.PROCESSING_STRATEGY}`)
+    console.log(`🔧 Config: ${config.MAX_CHUNK_TOKENS} tokens/chunk, ${config.MAX_PARALLEL_BATCHES} parallel embedding requests`)
+
+    // 4. Semantic chunking; CSV/TSV files are chunked by rows unless they turn out not to be tabular,
+    // and source files by declarations when there's a grammar for the language
+    await updateDocumentProgress(documentId, { processing_stage: "chunking" })
+    const documentTitle = document.name || "Unknown Document"
+    let chunks: DocumentChunkDraft[] | null = null
+    if (fileType.type === "csv") {
+      console.log(`🔧 Tabular chunking...`)
+      chunks = await chunkTable(textContent, {
+        documentTitle,
+        maxTokens: config.MAX_CHUNK_TOKENS,
+        countTokens: getAccurateTokenCount,
+      })
+    } else if (fileType.type === "code" && fileType.language) {
+      console.log(`🔧 Syntax-aware chunking (${fileType.language})...`)
+      chunks = await chunkCode(textContent, {
+        language: fileType.language,
+        documentTitle,
+        maxTokens: config.MAX_CHUNK_TOKENS,
+        countTokens: getAccurateTokenCount,
+      })
+    }
+    if (!chunks) {
+      console.log(`🔧 Semantic chunking...`)
+      const chunker = new SemanticChunker(config, documentTitle, contentAnalysis)
+      chunks = await chunker.chunkIntelligently(textContent)
+    }
+    
+    if (chunks.length === 0) {
+      throw new Error("No chunks created")
+    }
+
+    // Validate chunks
+    const tokenStats = {
+      min: Math.min(...chunks.map(c => c.tokens)),
+      max: Math.max(...chunks.map(c => c.tokens)),
+      avg: Math.round(chunks.reduce((sum, c) => sum + c.tokens, 0) / chunks.length)
+    }
+    
+    console.log(`📊 Created ${chunks.length} chunks | Token stats: ${tokenStats.min}-${tokenStats.max} (avg: ${tokenStats.avg})`)
+    
+    // Safety check
+    const oversizedChunks = chunks.filter(c => c.tokens > 500)
+    if (oversizedChunks.length > 0) {
+      console.warn(`⚠️ ${oversizedChunks.length} chunks exceed 500 tokens (max: ${Math.max(...oversizedChunks.map(c => c.tokens))})`)
+    }
+
+    // 5. Resume: keep chunks an earlier run already embedded, drop the ones that no longer exist
+    const contextual = project.contextual_retrieval
+    const chunkSpans = pages || contextual ? locateChunks(chunks, textContent) : chunks.map(() => null)
+    const indexedChunks = chunks.map((chunk, index) => ({
+      ...chunk,
+      chunkIndex: index,
+      contentHash: hashChunkContent(chunk.content, contextual),
+      ...chunkPages(chunkSpans[index], pages),
+      generatedContext: null as string | null,
+      generatedContextTokens: 0,
+    }))
+    const storedChunks = await loadEmbeddedChunks(documentId, embeddingProvider.model)
+    const pendingChunks = indexedChunks.filter((chunk) => {
+      const stored = storedChunks.get(chunk.chunkIndex)
+      return (
+        stored?.contentHash !== chunk.contentHash ||
+        stored.pageStart !== chunk.pageStart ||
+        stored.pageEnd !== chunk.pageEnd
+      )
+    })
+    const alreadyEmbedded = chunks.length - pendingChunks.length
+    await removeOrphanChunks(documentId, chunks.length)
+    if (alreadyEmbedded > 0) {
+      console.log(`♻️ Resuming: ${alreadyEmbedded}/${chunks.length} chunks already embedded`)
+    }
+
+    // 6. Contextual retrieval (optional): Claude situates each pending chunk within the document
+    let contextualization: ContextualizationUsage | null = null
+    if (contextual && pendingChunks.length > 0) {
+      await updateDocumentProgress(documentId, {
+        processing_stage: "contextualizing",
+        chunks_total: chunks.length,
+        chunks_processed: alreadyEmbedded,
+      })
+      contextualization = await contextualizeChunks(document, textContent, pendingChunks, chunkSpans, alreadyEmbedded, signal)
+    }
+
+    // 7. Ultra-high-performance processing
+    await updateDocumentProgress(documentId, {
+      processing_stage: "embedding",
+      chunks_total: chunks.length,
+      chunks_processed: alreadyEmbedded,
+    })
+    console.log(`⚡ Starting ultra-high-performance processing...`)
+    processor = new UltraHighPerformanceProcessor(document, config, embeddingProvider, signal)
+    const throughput = await processor.processAllChunks(pendingChunks, alreadyEmbedded)
+    const processedCount = alreadyEmbedded + throughput.chunks
+
+    // 8. Complete
+    await supabase
+      .from("documents")
+      .update({
+        status: "completed",
+        processing_stage: "done",
+        chunks_processed: processedCount,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", documentId)
+    await recordEmbeddingUsage(document, processor, embeddingProvider)
+
+    const totalTime = Date.now() - startTime
+    const performance = {
+      charsPerSecond: Math.round(textContent.length / (totalTime / 1000)),
+      chunksPerSecond: Math.round(processedCount / (totalTime / 1000)),
+      tokensPerSecond: Math.round((chunks.reduce((sum, c) => sum + c.tokens, 0)) / (totalTime / 1000))
+    }
+    
+    console.log(`🎉 ULTIMATE PRODUCTION COMPLETE!`)
+    console.log(`📊 ${processedCount} chunks, ${textContent.length} chars in ${totalTime}ms`)
+    console.log(`⚡ Performance: ${performance.charsPerSecond} chars/sec, ${performance.chunksPerSecond} chunks/sec`)
+
+    return {
+      chunksCreated: processedCount,
+      textLength: textContent.length,
+      processingTimeMs: totalTime,
+      strategy: config.PROCESSING_STRATEGY,
+      embedding: throughput,
+      contextualization,
+    }
+
+  } catch (error) {
+    console.error(`❌ ULTIMATE PRODUCTION ERROR:`, error)
+
+    // Embeddings created before the failure were still billed
+    await recordEmbeddingUsage(document, processor, embeddingProvider)
+    throw error
+  }
+}
+
+async function downloadFile(fileUrl: string): Promise<ArrayBuffer> {
+  const response = await fetch(fileUrl)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch: ${response.status}`)
+  }
+  return await response.arrayBuffer()
+}
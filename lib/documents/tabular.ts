@@ -0,0 +1,271 @@
+// Row-aware ingestion for CSV/TSV files. Instead of prose chunking, rows are grouped into chunks that
+// each start with the column names, every chunk records its row range, and generated schema chunks
+// describe the columns so questions about the table's shape can be answered from retrieval alone.
+
+export interface ColumnStats {
+  name: string
+  type: "number" | "date" | "boolean" | "text" | "empty"
+  nonEmpty: number
+  distinct: number
+  min?: number | string
+  max?: number | string
+  mean?: number
+  examples?: string[] // Most frequent values of text columns
+}
+
+export interface TableChunk {
+  content: string
+  context: string
+  tokens: number
+  semanticBoundary: string
+  chunkType: string
+  metadata: Record<string, unknown>
+}
+
+interface ChunkTableOptions {
+  documentTitle: string
+  maxTokens: number
+  countTokens: (text: string) => Promise<number>
+}
+
+const DELIMITERS = [",", "\t", ";", "|"]
+const SAMPLE_LINES = 20
+const MAX_DISTINCT_TRACKED = 1000 // Distinct counts above this are reported as "1000+"
+const MAX_EXAMPLES = 5
+const MAX_CELL_LENGTH = 200 // Long free-text cells are truncated in row chunks; the full row is rarely needed
+
+// The delimiter that splits the first lines into the same number (>1) of fields most often
+function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim()).slice(0, SAMPLE_LINES)
+  let best = ","
+  let bestScore = 0
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map((line) => parseDelimited(line, delimiter)[0]?.length ?? 0)
+    const first = counts[0] ?? 0
+    if (first < 2) continue
+    const score = counts.filter((count) => count === first).length * first
+    if (score > bestScore) {
+      best = delimiter
+      bestScore = score
+    }
+  }
+  return best
+}
+
+// RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and newlines
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+function isNumeric(value: string): boolean {
+  return /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/.test(value) && /\d/.test(value)
+}
+
+function toNumber(value: string): number {
+  return Number(value.replace(/,/g, ""))
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value) || /^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test(value)
+}
+
+function isBoolean(value: string): boolean {
+  return /^(true|false|yes|no)$/i.test(value)
+}
+
+// A first row of unique, non-numeric labels is a header when the data below has typed values, or when
+// the labels are short enough to be column names rather than a first record of prose
+function hasHeaderRow(rows: string[][]): boolean {
+  const [first, ...rest] = rows
+  if (!first || rest.length === 0) return false
+  const labels = first.map((cell) => cell.trim())
+  if (labels.some((label) => !label || isNumeric(label) || isDate(label))) return false
+  if (new Set(labels.map((label) => label.toLowerCase())).size !== labels.length) return false
+  const sample = rest.slice(0, SAMPLE_LINES)
+  const dataLooksTyped = labels.some((_, column) =>
+    sample.some((row) => {
+      const value = row[column]?.trim() ?? ""
+      return isNumeric(value) || isDate(value) || isBoolean(value)
+    }),
+  )
+  return dataLooksTyped || labels.every((label) => label.length <= 40 && !/[.!?]$/.test(label))
+}
+
+function computeColumnStats(name: string, values: string[]): ColumnStats {
+  const present = values.map((value) => value.trim()).filter(Boolean)
+  const frequencies = new Map<string, number>()
+  for (const value of present) {
+    if (frequencies.size < MAX_DISTINCT_TRACKED || frequencies.has(value)) {
+      frequencies.set(value, (frequencies.get(value) ?? 0) + 1)
+    }
+  }
+  const stats: ColumnStats = { name, type: "empty", nonEmpty: present.length, distinct: frequencies.size }
+  if (present.length === 0) return stats
+
+  if (present.every(isNumeric)) {
+    const numbers = present.map(toNumber)
+    stats.type = "number"
+    // reduce rather than Math.min(...numbers): large exports overflow the argument limit
+    stats.min = numbers.reduce((min, n) => Math.min(min, n), Infinity)
+    stats.max = numbers.reduce((max, n) => Math.max(max, n), -Infinity)
+    stats.mean = Math.round((numbers.reduce((sum, n) => sum + n, 0) / numbers.length) * 1000) / 1000
+  } else if (present.every(isDate)) {
+    const sorted = [...present].sort()
+    stats.type = "date"
+    stats.min = sorted[0]
+    stats.max = sorted[sorted.length - 1]
+  } else if (present.every(isBoolean)) {
+    stats.type = "boolean"
+  } else {
+    stats.type = "text"
+    stats.examples = [...frequencies.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_EXAMPLES)
+      .map(([value]) => value.replace(/\s+/g, " "))
+      .map((value) => (value.length > 60 ? `${value.slice(0, 57)}...` : value))
+  }
+  return stats
+}
+
+function describeColumn(column: ColumnStats): string {
+  const distinct = column.distinct >= MAX_DISTINCT_TRACKED ? `${MAX_DISTINCT_TRACKED}+` : String(column.distinct)
+  const parts = [`${column.nonEmpty} non-empty`, `${distinct} distinct`]
+  if (column.min !== undefined) parts.push(`min ${column.min}`, `max ${column.max}`)
+  if (column.mean !== undefined) parts.push(`mean ${column.mean}`)
+  if (column.examples?.length) parts.push(`e.g. ${column.examples.map((value) => `"${value}"`).join(", ")}`)
+  return `- ${column.name} (${column.type}): ${parts.join(", ")}`
+}
+
+function formatRow(cells: string[]): string {
+  return cells
+    .map((cell) => {
+      const value = cell.replace(/\s+/g, " ").trim()
+      return value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH - 3)}...` : value
+    })
+    .join(" | ")
+}
+
+// Returns null when the text doesn't parse as a table (a single column), so the caller can fall back to prose chunking
+export async function chunkTable(text: string, options: ChunkTableOptions): Promise<TableChunk[] | null> {
+  const delimiter = detectDelimiter(text)
+  const rows = parseDelimited(text.replace(/^\uFEFF/, ""), delimiter)
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+  if (columnCount < 2) return null
+
+  const hasHeader = hasHeaderRow(rows)
+  const header = hasHeader
+    ? rows[0].map((cell, i) => cell.trim() || `column_${i + 1}`)
+    : Array.from({ length: columnCount }, (_, i) => `column_${i + 1}`)
+  while (header.length < columnCount) header.push(`column_${header.length + 1}`)
+  const dataRows = hasHeader ? rows.slice(1) : rows
+
+  const columns = header.map((name, i) => computeColumnStats(name, dataRows.map((row) => row[i] ?? "")))
+  const headerLine = formatRow(header)
+  const { documentTitle, maxTokens, countTokens } = options
+  const chunks: TableChunk[] = []
+
+  // Wide tables describe their columns over several schema chunks, each repeating the summary line
+  const schemaIntro = [
+    `Table schema for ${documentTitle}: ${dataRows.length} rows, ${columnCount} columns${hasHeader ? "" : " (no header row; columns are numbered)"}.`,
+    "Columns:",
+  ].join("\n")
+  const schemaIntroTokens = await countTokens(schemaIntro)
+
+  // columnStart and columnEnd are 1-based and inclusive, like row ranges
+  const pushSchema = async (columnStart: number, columnEnd: number) => {
+    const described = columns.slice(columnStart - 1, columnEnd)
+    const content = [schemaIntro, ...described.map(describeColumn)].join("\n")
+    const range =
+      columnStart > 1 || columnEnd < columnCount ? `, columns ${columnStart}-${columnEnd} of ${columnCount}` : ""
+    chunks.push({
+      content,
+      context: `Document: ${documentTitle} | Table schema${range}`,
+      tokens: await countTokens(content),
+      semanticBoundary: "TABLE_SCHEMA",
+      chunkType: "TABLE_SCHEMA",
+      metadata: { rowCount: dataRows.length, columnStart, columnEnd, columns: described },
+    })
+  }
+
+  let schemaStart = 1
+  let schemaTokens = schemaIntroTokens
+  for (const [index, column] of columns.entries()) {
+    const lineTokens = await countTokens(describeColumn(column))
+    if (index + 1 > schemaStart && schemaTokens + lineTokens > maxTokens) {
+      await pushSchema(schemaStart, index)
+      schemaStart = index + 1
+      schemaTokens = schemaIntroTokens
+    }
+    schemaTokens += lineTokens
+  }
+  await pushSchema(schemaStart, columnCount)
+
+  // Every row chunk repeats the header, so its budget is what's left after the header line
+  const headerTokens = await countTokens(headerLine)
+  let current: string[] = []
+  let currentTokens = headerTokens
+  let currentStart = 1
+
+  const pushRows = async (rowEnd: number) => {
+    const content = [headerLine, ...current].join("\n")
+    chunks.push({
+      content,
+      context: `Document: ${documentTitle} | Table rows ${currentStart}-${rowEnd} of ${dataRows.length}`,
+      tokens: await countTokens(content),
+      semanticBoundary: "TABLE_ROWS",
+      chunkType: "TABLE_ROWS",
+      metadata: { rowStart: currentStart, rowEnd },
+    })
+  }
+
+  for (const [index, row] of dataRows.entries()) {
+    const line = formatRow(row)
+    const lineTokens = await countTokens(line)
+    if (current.length > 0 && currentTokens + lineTokens > maxTokens) {
+      await pushRows(index)
+      current = []
+      currentTokens = headerTokens
+      currentStart = index + 1
+    }
+    current.push(line)
+    currentTokens += lineTokens
+  }
+  if (current.length > 0) await pushRows(dataRows.length)
+
+  return chunks
+}
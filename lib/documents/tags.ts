@@ -0,0 +1,23 @@
+// Document tags: free-form labels used to pick groups of documents to chat against
+
+const MAX_TAGS = 10
+const MAX_TAG_LENGTH = 40
+
+// Validates a client payload; tags are trimmed, lowercased and deduplicated
+export function parseDocumentTags(
+  input: unknown,
+): { tags: string[]; error?: undefined } | { tags?: undefined; error: string } {
+  if (!Array.isArray(input) || input.some((tag) => typeof tag !== "string")) {
+    return { error: "tags must be an array of strings" }
+  }
+  const tags = [...new Set((input as string[]).map((tag) => tag.trim().toLowerCase()).filter(Boolean))]
+  if (tags.length > MAX_TAGS) {
+    return { error: `A document can have at most ${MAX_TAGS} tags` }
+  }
+  const tooLong = tags.find((tag) => tag.length > MAX_TAG_LENGTH)
+  if (tooLong) {
+    return { error: `Tags must be at most ${MAX_TAG_LENGTH} characters: "${tooLong}"` }
+  }
+  return { tags }
+}
+
@@ -0,0 +1,39 @@
+// Deterministic embeddings for tests and offline development: words are hashed into a fixed number
+// of buckets, so texts sharing words land close together. No network, no model download.
+
+import type { EmbeddingProvider, EmbeddingResult } from "@/lib/embeddings/provider"
+
+const FAKE_DIMENSIONS = 256
+
+// FNV-1a, 32-bit
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function fakeEmbedding(text: string): number[] {
+  const vector = new Array(FAKE_DIMENSIONS).fill(0)
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    const hash = hashWord(word)
+    vector[hash % FAKE_DIMENSIONS] += hash & 0x80000000 ? -1 : 1
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm === 0 ? vector : vector.map((value) => value / norm)
+}
+
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly id = "fake" as const
+  readonly model = `fake-hash-${FAKE_DIMENSIONS}`
+  readonly dimensions = FAKE_DIMENSIONS
+  readonly maxInputTokens = 8191
+  readonly maxBatchInputs = 256
+  readonly maxBatchTokens = 256 * 512
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult> {
+    return { embeddings: texts.map(fakeEmbedding), tokens: 0 }
+  }
+}
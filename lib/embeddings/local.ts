@@ -0,0 +1,39 @@
+// CPU embeddings with transformers.js (ONNX runtime), so RAG works without an OpenAI key.
+// The model is downloaded from the Hugging Face hub on first use and cached; Node.js runtime only.
+
+import type { EmbeddingProvider, EmbeddingResult } from "@/lib/embeddings/provider"
+
+const LOCAL_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2"
+
+// Loading the model takes seconds, so one pipeline is shared per server instance
+let extractorPromise: Promise<any> | null = null
+
+function getExtractor(): Promise<any> {
+  if (!extractorPromise) {
+    extractorPromise = import("@huggingface/transformers")
+      .then(({ pipeline }) => pipeline("feature-extraction", LOCAL_EMBEDDING_MODEL))
+      .catch((error) => {
+        extractorPromise = null // Let the next call retry, e.g. after a failed download
+        throw error
+      })
+  }
+  return extractorPromise
+}
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = "local" as const
+  readonly model = LOCAL_EMBEDDING_MODEL
+  readonly dimensions = 384
+  // The model truncates inputs at 256 WordPiece tokens, which usually run longer than cl100k counts;
+  // 200 leaves room for that
+  readonly maxInputTokens = 200
+  // CPU inference: larger batches only add latency per call
+  readonly maxBatchInputs = 32
+  readonly maxBatchTokens = 32 * 256
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult> {
+    const extractor = await getExtractor()
+    const output = await extractor(texts, { pooling: "mean", normalize: true })
+    return { embeddings: output.tolist() as number[][], tokens: 0 }
+  }
+}
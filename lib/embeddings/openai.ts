@@ -0,0 +1,57 @@
+import { OpenAI } from "openai"
+import { EmbeddingRateLimitError, type EmbeddingProvider, type EmbeddingResult } from "@/lib/embeddings/provider"
+
+let openaiClient: OpenAI | null = null
+
+function getOpenAIClient(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not set")
+  }
+  if (!openaiClient) {
+    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+  return openaiClient
+}
+
+// retry-after-ms (OpenAI-specific) wins over the standard retry-after, which is seconds or an HTTP date
+function parseRetryAfter(headers: Headers | undefined): number | null {
+  const retryAfterMs = Number(headers?.get("retry-after-ms"))
+  if (retryAfterMs > 0) return retryAfterMs
+
+  const retryAfter = headers?.get("retry-after")
+  if (!retryAfter) return null
+  const seconds = Number(retryAfter)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(retryAfter)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id = "openai" as const
+  readonly model = "text-embedding-3-small"
+  readonly dimensions = 1536
+  readonly maxInputTokens = 8191
+  // The API allows 2048 inputs and 300K tokens per request; stay well under the token cap so a
+  // few parallel requests don't exhaust a low tokens-per-minute tier at once
+  readonly maxBatchInputs = 2048
+  readonly maxBatchTokens = 50000
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult> {
+    let response: OpenAI.CreateEmbeddingResponse
+    try {
+      response = await getOpenAIClient().embeddings.create({
+        model: this.model,
+        input: texts,
+      })
+    } catch (error) {
+      if (error instanceof OpenAI.RateLimitError) {
+        throw new EmbeddingRateLimitError(error.message, parseRetryAfter(error.headers))
+      }
+      throw error
+    }
+    return {
+      embeddings: [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding),
+      tokens: response.usage.prompt_tokens,
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// Embedding backends used for document ingestion and query retrieval. Each project picks one
+// (projects.embedding_provider); every chunk records the model that embedded it, and retrieval only
+// compares a query against chunks from the same model. Implementations are created through
+// getEmbeddingProvider (lib/embeddings/providers.ts); this module stays light enough for edge routes.
+
+export type EmbeddingProviderId = "openai" | "local" | "fake"
+
+export const EMBEDDING_PROVIDER_IDS: EmbeddingProviderId[] = ["openai", "local", "fake"]
+
+export const DEFAULT_EMBEDDING_PROVIDER: EmbeddingProviderId = "openai"
+
+export interface EmbeddingResult {
+  embeddings: number[][] // Same order as the input texts
+  tokens: number // Billed input tokens; 0 for providers that don't bill
+}
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId
+  model: string // Stored on document_chunks.embedding_model
+  dimensions: number
+  // Longest input the model reads, in the chunker's (cl100k) token count; the model silently drops the
+  // rest, so ingestion caps chunk size at this
+  maxInputTokens: number
+  // Limits for one embedBatch call; ingestion packs chunks into requests up to both
+  maxBatchInputs: number
+  maxBatchTokens: number
+  embedBatch(texts: string[]): Promise<EmbeddingResult>
+}
+
+// Thrown by embedBatch when the provider rejects a request with 429. retryAfterMs comes from the
+// response's retry-after header, or is null when the provider didn't say.
+export class EmbeddingRateLimitError extends Error {
+  readonly retryAfterMs: number | null
+
+  constructor(message: string, retryAfterMs: number | null) {
+    super(message)
+    this.name = "EmbeddingRateLimitError"
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// document_chunks.embedding is vector(1536). Smaller vectors are zero-padded on the way in, which
+// leaves cosine similarity unchanged, so every provider shares one column and one HNSW index.
+export const EMBEDDING_COLUMN_DIMENSIONS = 1536
+
+export function isEmbeddingProviderId(value: unknown): value is EmbeddingProviderId {
+  return typeof value === "string" && (EMBEDDING_PROVIDER_IDS as string[]).includes(value)
+}
+
+// Why a provider can't be used in this deployment, or null when it can
+export function getEmbeddingProviderUnavailableReason(id: EmbeddingProviderId): string | null {
+  switch (id) {
+    case "openai":
+      return process.env.OPENAI_API_KEY ? null : "OPENAI_API_KEY is not set"
+    case "local":
+      return null
+    case "fake":
+      return process.env.NODE_ENV === "production" ? "The fake embedding provider is for tests only" : null
+  }
+}
+
+export function toStoredEmbedding(embedding: number[]): number[] {
+  if (embedding.length > EMBEDDING_COLUMN_DIMENSIONS) {
+    throw new Error(
+      `Embedding has ${embedding.length} dimensions; the column holds at most ${EMBEDDING_COLUMN_DIMENSIONS}`,
+    )
+  }
+  if (embedding.length === EMBEDDING_COLUMN_DIMENSIONS) return embedding
+  return [...embedding, ...new Array(EMBEDDING_COLUMN_DIMENSIONS - embedding.length).fill(0)]
+}
@@ -0,0 +1,20 @@
+import { OpenAIEmbeddingProvider } from "@/lib/embeddings/openai"
+import { LocalEmbeddingProvider } from "@/lib/embeddings/local"
+import { FakeEmbeddingProvider } from "@/lib/embeddings/fake"
+import {
+  DEFAULT_EMBEDDING_PROVIDER,
+  isEmbeddingProviderId,
+  type EmbeddingProvider,
+} from "@/lib/embeddings/provider"
+
+// Unknown or missing ids (e.g. rows from before providers existed) fall back to the default
+export function getEmbeddingProvider(id: string | null | undefined): EmbeddingProvider {
+  switch (isEmbeddingProviderId(id) ? id : DEFAULT_EMBEDDING_PROVIDER) {
+    case "local":
+      return new LocalEmbeddingProvider()
+    case "fake":
+      return new FakeEmbeddingProvider()
+    default:
+      return new OpenAIEmbeddingProvider()
+  }
+}
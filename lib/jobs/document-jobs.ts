@@ -0,0 +1,17 @@
+// Postgres-backed job queue for document ingestion (document_jobs table). Uploads enqueue here;
+// lib/jobs/document-worker.ts claims and runs the jobs. Edge-safe.
+
+import { createSupabaseAdminClient } from "@/lib/supabase/admin"
+
+// Safe to call twice for the same document: the unique index allows one queued/running job per document
+export async function enqueueDocumentJob(document: { id: string; user_id: string; project_id: string }) {
+  const supabaseAdmin = createSupabaseAdminClient()
+  const { error } = await supabaseAdmin.from("document_jobs").insert({
+    document_id: document.id,
+    user_id: document.user_id,
+    project_id: document.project_id,
+  })
+  if (error && error.code !== "23505") {
+    throw new Error(`Failed to enqueue document job: ${error.message}`)
+  }
+}
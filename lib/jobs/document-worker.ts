@@ -0,0 +1,162 @@
+// Worker for the document job queue (see lib/jobs/document-jobs.ts). Claims jobs with a lease,
+// extends the lease with heartbeats while the pipeline runs, and re-queues failures with exponential
+// backoff until max_attempts is reached. A worker that dies mid-job simply stops heartbeating, and the
+// job is claimed again once its lease expires. Node.js only: the pipeline needs pdf-parse and mammoth.
+
+import { createSupabaseAdminClient } from "@/lib/supabase/admin"
+import { processDocument } from "@/lib/documents/processor"
+import type { DocumentJob } from "@/types/database"
+
+const LEASE_SECONDS = 120
+const HEARTBEAT_INTERVAL_MS = 30000
+
+const BASE_RETRY_DELAY_SECONDS = 30
+const MAX_RETRY_DELAY_SECONDS = 60 * 60
+
+// Pending/processing documents untouched this long and without an active job are re-queued
+const STALE_DOCUMENT_SECONDS = 10 * 60
+
+export interface WorkerRunResult {
+  recovered: number
+  completed: number
+  retried: number
+  failed: number
+}
+
+function getRetryDelaySeconds(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** (attempts - 1), MAX_RETRY_DELAY_SECONDS)
+  return Math.round(delay * (0.8 + Math.random() * 0.4)) // ±20% jitter so failed batches don't retry in lockstep
+}
+
+async function setDocumentStatus(documentId: string, status: string, processingError: string | null) {
+  const supabaseAdmin = createSupabaseAdminClient()
+  const { error } = await supabaseAdmin
+    .from("documents")
+    .update({ status, processing_error: processingError })
+    .eq("id", documentId)
+  if (error) {
+    console.error(`[Jobs] Failed to set document ${documentId} to ${status}:`, error)
+  }
+}
+
+// Updates only while this worker still holds the job, so a worker that lost its lease can't clobber the new owner
+async function finishJob(job: DocumentJob, workerId: string, update: Partial<DocumentJob>) {
+  const supabaseAdmin = createSupabaseAdminClient()
+  const { error } = await supabaseAdmin
+    .from("document_jobs")
+    .update({ locked_by: null, lease_expires_at: null, ...update })
+    .eq("id", job.id)
+    .eq("locked_by", workerId)
+  if (error) {
+    console.error(`[Jobs] Failed to update job ${job.id}:`, error)
+  }
+}
+
+async function runJob(job: DocumentJob, workerId: string): Promise<keyof Omit<WorkerRunResult, "recovered">> {
+  // A job reclaimed after its lease expired on the final attempt has no attempts left
+  if (job.attempts > job.max_attempts) {
+    const lastError = job.last_error || "Worker stopped responding"
+    await finishJob(job, workerId, { status: "failed", last_error: lastError })
+    await setDocumentStatus(job.document_id, "failed", lastError)
+    return "failed"
+  }
+
+  const supabaseAdmin = createSupabaseAdminClient()
+  const leaseLost = new AbortController()
+  const heartbeat = setInterval(async () => {
+    const { data: stillHeld, error } = await supabaseAdmin.rpc("heartbeat_document_job", {
+      job_id: job.id,
+      worker_id: workerId,
+      lease_seconds: LEASE_SECONDS,
+    })
+    if (error) {
+      console.error(`[Jobs] Heartbeat failed for job ${job.id}:`, error)
+    } else if (!stillHeld) {
+      console.warn(`[Jobs] Lost the lease on job ${job.id}; stopping`)
+      leaseLost.abort()
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    console.log(`[Jobs] Processing document ${job.document_id} (attempt ${job.attempts}/${job.max_attempts})`)
+    const { embedding, contextualization } = await processDocument(job.document_id, leaseLost.signal)
+    console.log(
+      `[Jobs] Document ${job.document_id} embedded ${embedding.chunks} chunks at ${embedding.chunksPerSecond}/s ` +
+        `with ${embedding.embeddingRequests + embedding.upsertRequests} requests (${embedding.roundTripsSaved} saved by batching)`,
+    )
+    if (contextualization) {
+      console.log(
+        `[Jobs] Document ${job.document_id} contextualized ${contextualization.chunks} chunks ` +
+          `(${contextualization.inputTokens + contextualization.cacheCreationInputTokens + contextualization.cacheReadInputTokens} input tokens, ` +
+          `${contextualization.cacheReadInputTokens} from cache, ${contextualization.outputTokens} output)`,
+      )
+    }
+    await finishJob(job, workerId, { status: "completed", last_error: null })
+    return "completed"
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (leaseLost.signal.aborted) {
+      // Another worker owns the job now; leave its state alone
+      return "retried"
+    }
+
+    if (job.attempts >= job.max_attempts) {
+      console.error(`[Jobs] Document ${job.document_id} failed permanently: ${message}`)
+      await finishJob(job, workerId, { status: "failed", last_error: message })
+      await setDocumentStatus(job.document_id, "failed", message)
+      return "failed"
+    }
+
+    const delaySeconds = getRetryDelaySeconds(job.attempts)
+    console.warn(`[Jobs] Document ${job.document_id} failed, retrying in ${delaySeconds}s: ${message}`)
+    await finishJob(job, workerId, {
+      status: "queued",
+      last_error: message,
+      run_after: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+    })
+    await setDocumentStatus(job.document_id, "pending", message)
+    return "retried"
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+// Re-queues stuck documents, then claims and runs jobs one at a time until none are due or the
+// deadline passes. A job still running at the deadline keeps going; its lease covers a cut-off run.
+export async function runDocumentWorker({
+  workerId,
+  deadline,
+}: {
+  workerId: string
+  deadline: number
+}): Promise<WorkerRunResult> {
+  const supabaseAdmin = createSupabaseAdminClient()
+  const result: WorkerRunResult = { recovered: 0, completed: 0, retried: 0, failed: 0 }
+
+  const { data: recovered, error: recoverError } = await supabaseAdmin.rpc("enqueue_stale_document_jobs", {
+    stale_after_seconds: STALE_DOCUMENT_SECONDS,
+  })
+  if (recoverError) {
+    console.error("[Jobs] Failed to recover stale documents:", recoverError)
+  } else if (recovered) {
+    console.log(`[Jobs] Re-queued ${recovered} stale documents`)
+    result.recovered = recovered
+  }
+
+  while (Date.now() < deadline) {
+    const { data: claimed, error: claimError } = await supabaseAdmin.rpc("claim_document_job", {
+      worker_id: workerId,
+      lease_seconds: LEASE_SECONDS,
+    })
+    if (claimError) {
+      console.error("[Jobs] Failed to claim a job:", claimError)
+      break
+    }
+    const job = claimed?.[0]
+    if (!job) break
+
+    result[await runJob(job, workerId)]++
+  }
+
+  return result
+}
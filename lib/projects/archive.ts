@@ -0,0 +1,615 @@
+// Whole-project archives: a zip holding manifest.json, the original files from blob storage, every
+// chunk with its embedding and each chat thread in the thread export format (lib/chat/transcript.ts).
+// Importing recreates the project under fresh ids, so an archive can move between accounts and
+// instances. Node.js runtime only (jszip, Buffer).
+
+import JSZip from "jszip"
+import { put, del } from "@vercel/blob"
+import { customAlphabet } from "nanoid"
+import {
+  buildImportedMessageRows,
+  buildThreadExport,
+  parseThreadExport,
+  type ImportedThread,
+} from "@/lib/chat/transcript"
+import { parseRetrievalSettings } from "@/lib/chat/retrieval-settings"
+import { DEFAULT_THREAD_TITLE } from "@/lib/chat/thread-metadata"
+import {
+  EMBEDDING_COLUMN_DIMENSIONS,
+  getEmbeddingProviderUnavailableReason,
+  isEmbeddingProviderId,
+  toStoredEmbedding,
+  type EmbeddingProviderId,
+} from "@/lib/embeddings/provider"
+import { getEmbeddingProvider } from "@/lib/embeddings/providers"
+import { parseDocumentTags } from "@/lib/documents/tags"
+import { enqueueDocumentJob } from "@/lib/jobs/document-jobs"
+import type { Database, MessageSource, Project } from "@/types/database"
+
+export const PROJECT_ARCHIVE_FORMAT = "claudedesk.project"
+export const PROJECT_ARCHIVE_VERSION = 1
+
+const MANIFEST_PATH = "manifest.json"
+const PAGE_SIZE = 1000 // PostgREST's default max rows per request
+const INSERT_BATCH_SIZE = 200 // Chunk rows carry a 1536-float vector each, so inserts stay small
+
+const nanoid = customAlphabet("0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz", 7)
+
+type DocumentInsert = Database["public"]["Tables"]["documents"]["Insert"]
+
+// Thrown for archives that can't be imported; the message is safe to show the user
+export class ProjectArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ProjectArchiveError"
+  }
+}
+
+interface ArchivedDocument {
+  id: string
+  name: string
+  mimeType: string | null
+  fileSize: number | null
+  tags: string[]
+  createdAt: string
+  file: string | null // Path of the original file; null when it couldn't be downloaded at export time
+  chunks: string // Path of the ArchivedChunk[] JSON
+}
+
+interface ArchivedChunk {
+  id: string
+  chunkIndex: number | null
+  content: string
+  context: string | null
+  generatedContext: string | null
+  tokens: number | null
+  contentHash: string | null
+  metadata: Record<string, any> | null
+  pageStart: number | null
+  pageEnd: number | null
+  embedding: number[] // Unpadded: manifest.embedding.dimensions values
+}
+
+interface ArchivedThread {
+  id: string
+  file: string // Path of the ThreadExport JSON
+  summary: string | null
+  summarizedUntil: string | null
+  summarizedThroughMessageId: string | null // Exported message id the summary ends at
+  documentScope: string[] | null
+  pinned: boolean
+  archived: boolean
+}
+
+export interface ProjectArchiveManifest {
+  format: typeof PROJECT_ARCHIVE_FORMAT
+  version: typeof PROJECT_ARCHIVE_VERSION
+  exportedAt: string
+  project: {
+    name: string
+    description: string | null
+    retrievalSettings: unknown
+    contextualRetrieval: boolean
+    createdAt: string
+  }
+  // Chunks are only archived for the project's current model; older vectors would be re-embedded anyway
+  embedding: {
+    provider: EmbeddingProviderId
+    model: string
+    dimensions: number
+  }
+  documents: ArchivedDocument[]
+  threads: ArchivedThread[]
+}
+
+// Reads every row of a query in pages; buildQuery gets the inclusive range to fetch
+async function fetchAllRows(buildQuery: (from: number, to: number) => any): Promise<any[]> {
+  const rows: any[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(`Failed to read project data: ${error.message}`)
+    }
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+// PostgREST returns pgvector columns as "[0.1,0.2,...]" strings
+function parseEmbedding(value: unknown): number[] {
+  return typeof value === "string" ? JSON.parse(value) : (value as number[])
+}
+
+export async function buildProjectArchive(supabase: any, project: Project): Promise<Uint8Array> {
+  const embeddingProvider = getEmbeddingProvider(project.embedding_provider)
+  const zip = new JSZip()
+
+  const documents = await fetchAllRows((from, to) =>
+    supabase
+      .from("documents")
+      .select("*")
+      .eq("project_id", project.id)
+      .order("created_at", { ascending: true })
+      .range(from, to),
+  )
+  const archivedDocuments: ArchivedDocument[] = []
+  for (const document of documents) {
+    let file: string | null = null
+    if (document.file_url) {
+      try {
+        const response = await fetch(document.file_url)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        file = `files/${document.id}`
+        zip.file(file, await response.arrayBuffer())
+      } catch (error) {
+        console.error(`Could not download ${document.name} for the project archive:`, error)
+      }
+    }
+
+    const chunks = await fetchAllRows((from, to) =>
+      supabase
+        .from("document_chunks")
+        .select(
+          "id, chunk_index, content, context, generated_context, tokens, content_hash, metadata, page_start, " +
+            "page_end, embedding",
+        )
+        .eq("document_id", document.id)
+        .eq("embedding_model", embeddingProvider.model)
+        .not("embedding", "is", null)
+        .order("chunk_index")
+        .range(from, to),
+    )
+    const archivedChunks: ArchivedChunk[] = chunks.map((chunk) => ({
+      id: chunk.id,
+      chunkIndex: chunk.chunk_index,
+      content: chunk.content,
+      context: chunk.context,
+      generatedContext: chunk.generated_context,
+      tokens: chunk.tokens,
+      contentHash: chunk.content_hash,
+      metadata: chunk.metadata,
+      pageStart: chunk.page_start,
+      pageEnd: chunk.page_end,
+      embedding: parseEmbedding(chunk.embedding).slice(0, embeddingProvider.dimensions),
+    }))
+    const chunksPath = `chunks/${document.id}.json`
+    zip.file(chunksPath, JSON.stringify(archivedChunks))
+
+    archivedDocuments.push({
+      id: document.id,
+      name: document.name,
+      mimeType: document.mime_type,
+      fileSize: document.file_size,
+      tags: document.tags || [],
+      createdAt: document.created_at,
+      file,
+      chunks: chunksPath,
+    })
+  }
+
+  const threads = await fetchAllRows((from, to) =>
+    supabase
+      .from("chat_threads")
+      .select("*")
+      .eq("project_id", project.id)
+      .order("created_at", { ascending: true })
+      .range(from, to),
+  )
+  const archivedThreads: ArchivedThread[] = []
+  for (const thread of threads) {
+    const messages = await fetchAllRows((from, to) =>
+      supabase
+        .from("messages")
+        .select("*")
+        .eq("chat_thread_id", thread.id)
+        .order("created_at", { ascending: true })
+        .range(from, to),
+    )
+    const threadPath = `threads/${thread.id}.json`
+    zip.file(threadPath, JSON.stringify(buildThreadExport(thread, messages)))
+    archivedThreads.push({
+      id: thread.id,
+      file: threadPath,
+      summary: thread.summary,
+      summarizedUntil: thread.summarized_until,
+      summarizedThroughMessageId: thread.summarized_through_message_id,
+      documentScope: thread.document_scope,
+      pinned: thread.pinned,
+      archived: thread.archived,
+    })
+  }
+
+  const manifest: ProjectArchiveManifest = {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: project.name,
+      description: project.description,
+      retrievalSettings: project.retrieval_settings,
+      contextualRetrieval: project.contextual_retrieval,
+      createdAt: project.created_at,
+    },
+    embedding: {
+      provider: embeddingProvider.id,
+      model: embeddingProvider.model,
+      dimensions: embeddingProvider.dimensions,
+    },
+    documents: archivedDocuments,
+    threads: archivedThreads,
+  }
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2))
+
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" })
+}
+
+function isNullableString(value: unknown): boolean {
+  return value === null || typeof value === "string"
+}
+
+function isTimestamp(value: unknown): boolean {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value))
+}
+
+// The import trusts these shapes, so a hand-edited manifest is rejected up front rather than
+// failing halfway through with a database error. Document tags are normalized in place.
+function validateManifestEntries(manifest: any) {
+  for (const [i, document] of manifest.documents.entries()) {
+    const entry = `Document ${i + 1} in ${MANIFEST_PATH}`
+    if (typeof document?.id !== "string" || typeof document.name !== "string" || typeof document.chunks !== "string") {
+      throw new ProjectArchiveError(`${entry} needs an id, a name and a chunks path`)
+    }
+    if (!isNullableString(document.file) || !isNullableString(document.mimeType)) {
+      throw new ProjectArchiveError(`${entry} has an invalid file or mimeType`)
+    }
+    if (document.fileSize !== null && typeof document.fileSize !== "number") {
+      throw new ProjectArchiveError(`${entry} has an invalid fileSize`)
+    }
+    if (!isTimestamp(document.createdAt)) {
+      throw new ProjectArchiveError(`${entry} needs a createdAt timestamp`)
+    }
+    const tags = parseDocumentTags(document.tags)
+    if (tags.error !== undefined) {
+      throw new ProjectArchiveError(`${entry}: ${tags.error}`)
+    }
+    document.tags = tags.tags
+  }
+
+  for (const [i, thread] of manifest.threads.entries()) {
+    const entry = `Thread ${i + 1} in ${MANIFEST_PATH}`
+    if (typeof thread?.id !== "string" || typeof thread.file !== "string") {
+      throw new ProjectArchiveError(`${entry} needs an id and a file path`)
+    }
+    if (
+      !isNullableString(thread.summary) ||
+      (thread.summarizedUntil !== null && !isTimestamp(thread.summarizedUntil)) ||
+      !isNullableString(thread.summarizedThroughMessageId ?? null)
+    ) {
+      throw new ProjectArchiveError(`${entry} has an invalid summary`)
+    }
+    if (
+      thread.documentScope !== null &&
+      (!Array.isArray(thread.documentScope) || thread.documentScope.some((id: unknown) => typeof id !== "string"))
+    ) {
+      throw new ProjectArchiveError(`${entry} has an invalid documentScope`)
+    }
+    if (typeof thread.pinned !== "boolean" || typeof thread.archived !== "boolean") {
+      throw new ProjectArchiveError(`${entry} needs pinned and archived flags`)
+    }
+  }
+}
+
+export interface OpenedProjectArchive {
+  zip: JSZip
+  manifest: ProjectArchiveManifest
+  fileSizes: (number | null)[] // Bytes of each document's file as stored in the zip, by manifest.documents index
+}
+
+export async function openProjectArchive(data: ArrayBuffer): Promise<OpenedProjectArchive> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(data)
+  } catch {
+    throw new ProjectArchiveError("The file is not a zip archive")
+  }
+  const manifestFile = zip.file(MANIFEST_PATH)
+  if (!manifestFile) {
+    throw new ProjectArchiveError(`The archive has no ${MANIFEST_PATH}`)
+  }
+
+  let manifest: any
+  try {
+    manifest = JSON.parse(await manifestFile.async("string"))
+  } catch {
+    throw new ProjectArchiveError(`${MANIFEST_PATH} is not valid JSON`)
+  }
+  if (manifest?.format !== PROJECT_ARCHIVE_FORMAT) {
+    throw new ProjectArchiveError("The archive is not a ClaudeDesk project export")
+  }
+  if (manifest.version !== PROJECT_ARCHIVE_VERSION) {
+    throw new ProjectArchiveError(
+      `Unsupported archive version ${manifest.version}; expected ${PROJECT_ARCHIVE_VERSION}`,
+    )
+  }
+  if (
+    typeof manifest.project?.name !== "string" ||
+    typeof manifest.embedding?.model !== "string" ||
+    typeof manifest.embedding?.dimensions !== "number" ||
+    !Array.isArray(manifest.documents) ||
+    !Array.isArray(manifest.threads)
+  ) {
+    throw new ProjectArchiveError(`${MANIFEST_PATH} is missing the project, embedding, documents or threads`)
+  }
+  validateManifestEntries(manifest)
+
+  // Measured from the zip entries, since quotas can't rely on the fileSize the manifest claims
+  const fileSizes: (number | null)[] = []
+  for (const document of manifest.documents) {
+    const file = document.file ? zip.file(document.file) : null
+    fileSizes.push(file ? (await file.async("uint8array")).byteLength : null)
+  }
+  return { zip, manifest: manifest as ProjectArchiveManifest, fileSizes }
+}
+
+// Why this instance can't search the archive's vectors, or null when it can. Vectors are only
+// comparable with queries embedded by the same model at the same size.
+export function getEmbeddingIncompatibility(manifest: ProjectArchiveManifest): string | null {
+  const archived = manifest.embedding
+  if (!isEmbeddingProviderId(archived.provider)) {
+    return `The archive uses an unknown embedding provider "${archived.provider}"`
+  }
+  if (archived.dimensions > EMBEDDING_COLUMN_DIMENSIONS) {
+    return (
+      `The archive's embeddings have ${archived.dimensions} dimensions; ` +
+      `this instance stores at most ${EMBEDDING_COLUMN_DIMENSIONS}`
+    )
+  }
+  const unavailableReason = getEmbeddingProviderUnavailableReason(archived.provider)
+  if (unavailableReason) {
+    return `The archive's embedding provider "${archived.provider}" is unavailable: ${unavailableReason}`
+  }
+  const provider = getEmbeddingProvider(archived.provider)
+  if (provider.model !== archived.model || provider.dimensions !== archived.dimensions) {
+    return (
+      `The archive's embeddings come from ${archived.model} (${archived.dimensions} dimensions), ` +
+      `but the "${archived.provider}" provider here uses ${provider.model} (${provider.dimensions} dimensions)`
+    )
+  }
+  return null
+}
+
+async function readArchiveJson(zip: JSZip, path: string): Promise<any> {
+  const file = zip.file(path)
+  if (!file) {
+    throw new ProjectArchiveError(`The archive is missing ${path}`)
+  }
+  try {
+    return JSON.parse(await file.async("string"))
+  } catch {
+    throw new ProjectArchiveError(`${path} is not valid JSON`)
+  }
+}
+
+async function readArchivedChunks(
+  zip: JSZip,
+  document: ArchivedDocument,
+  dimensions: number,
+): Promise<ArchivedChunk[]> {
+  const chunks = await readArchiveJson(zip, document.chunks)
+  if (!Array.isArray(chunks)) {
+    throw new ProjectArchiveError(`${document.chunks} must be a list of chunks`)
+  }
+  for (const [i, chunk] of chunks.entries()) {
+    if (typeof chunk?.content !== "string" || !Array.isArray(chunk.embedding)) {
+      throw new ProjectArchiveError(`Chunk ${i + 1} of "${document.name}" needs content and an embedding`)
+    }
+    if (chunk.embedding.length !== dimensions) {
+      throw new ProjectArchiveError(
+        `Chunk ${i + 1} of "${document.name}" has ${chunk.embedding.length} embedding dimensions; ` +
+          `the archive declares ${dimensions}`,
+      )
+    }
+  }
+  return chunks
+}
+
+interface ImportProjectArchiveOptions {
+  supabase: any
+  userId: string
+  archive: OpenedProjectArchive
+}
+
+// Creates the project, re-uploads its files and inserts everything under fresh ids. Any failure
+// removes what was created so far (the project cascade plus uploaded blobs) before rethrowing.
+export async function importProjectArchive({
+  supabase,
+  userId,
+  archive: { zip, manifest, fileSizes },
+}: ImportProjectArchiveOptions): Promise<Project> {
+  // Thread files (messages, sources, search queries) are validated before anything is created, so a
+  // bad one is a ProjectArchiveError rather than a failure midway. The archive as a whole passed the
+  // import quota, so threads skip the per-upload message cap.
+  const threadImports: { archived: ArchivedThread; imported: ImportedThread; synopsis: string | null }[] = []
+  for (const archived of manifest.threads) {
+    const exported = await readArchiveJson(zip, archived.file)
+    const imported = parseThreadExport(exported)
+    if (typeof imported === "string") {
+      throw new ProjectArchiveError(`${archived.file}: ${imported}`)
+    }
+    const synopsis = typeof exported.thread.synopsis === "string" ? exported.thread.synopsis : null
+    threadImports.push({ archived, imported, synopsis })
+  }
+
+  const retrievalSettings = manifest.project.retrievalSettings
+    ? parseRetrievalSettings(manifest.project.retrievalSettings)
+    : null
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .insert({
+      user_id: userId,
+      name: manifest.project.name.trim() || "Imported project",
+      description: manifest.project.description || null,
+      retrieval_settings: retrievalSettings?.settings ?? null,
+      embedding_provider: manifest.embedding.provider,
+      contextual_retrieval: manifest.project.contextualRetrieval === true,
+    })
+    .select()
+    .single()
+  if (projectError || !project) {
+    throw new Error(`Failed to create project: ${projectError?.message}`)
+  }
+
+  const uploadedUrls: string[] = []
+  try {
+    const documentIds = new Map<string, string>()
+    const chunkIds = new Map<string, string>()
+    const pendingDocuments: { id: string; user_id: string; project_id: string }[] = []
+
+    for (const [i, archived] of manifest.documents.entries()) {
+      const chunks = await readArchivedChunks(zip, archived, manifest.embedding.dimensions)
+      const file = archived.file ? zip.file(archived.file) : null
+
+      let fileUrl: string | null = null
+      if (file) {
+        const blob = await put(`${nanoid()}-${archived.name}`, await file.async("nodebuffer"), {
+          access: "public",
+          contentType: archived.mimeType || "application/octet-stream",
+          addRandomSuffix: false,
+        })
+        uploadedUrls.push(blob.url)
+        fileUrl = blob.url
+      }
+
+      // Archived chunks make the document searchable right away; otherwise the file is ingested again
+      const documentRow: DocumentInsert = {
+        user_id: userId,
+        project_id: project.id,
+        name: archived.name,
+        file_url: fileUrl,
+        file_size: fileUrl ? fileSizes[i] : null,
+        mime_type: archived.mimeType,
+        tags: archived.tags,
+        created_at: archived.createdAt,
+      }
+      if (chunks.length > 0) {
+        Object.assign(documentRow, {
+          status: "completed",
+          processing_stage: "done",
+          chunks_total: chunks.length,
+          chunks_processed: chunks.length,
+        })
+      } else if (!fileUrl) {
+        Object.assign(documentRow, {
+          status: "failed",
+          processing_error: "The project archive did not include this file",
+        })
+      }
+      const { data: document, error: documentError } = await supabase
+        .from("documents")
+        .insert(documentRow)
+        .select()
+        .single()
+      if (documentError || !document) {
+        throw new Error(`Failed to create document ${archived.name}: ${documentError?.message}`)
+      }
+      documentIds.set(archived.id, document.id)
+      if (chunks.length === 0 && fileUrl) pendingDocuments.push(document)
+
+      for (let start = 0; start < chunks.length; start += INSERT_BATCH_SIZE) {
+        const rows = chunks.slice(start, start + INSERT_BATCH_SIZE).map((chunk) => {
+          const id = crypto.randomUUID()
+          if (typeof chunk.id === "string") chunkIds.set(chunk.id, id)
+          return {
+            id,
+            document_id: document.id,
+            user_id: userId,
+            project_id: project.id,
+            content: chunk.content,
+            context: chunk.context ?? null,
+            generated_context: chunk.generatedContext ?? null,
+            embedding: toStoredEmbedding(chunk.embedding),
+            embedding_model: manifest.embedding.model,
+            chunk_index: chunk.chunkIndex ?? null,
+            tokens: chunk.tokens ?? null,
+            content_hash: chunk.contentHash ?? null,
+            metadata: chunk.metadata ?? null,
+            page_start: chunk.pageStart ?? null,
+            page_end: chunk.pageEnd ?? null,
+          }
+        })
+        const { error: chunksError } = await supabase.from("document_chunks").insert(rows)
+        if (chunksError) {
+          throw new Error(`Failed to import chunks of ${archived.name}: ${chunksError.message}`)
+        }
+      }
+    }
+
+    // Citations point at the imported copies; ones whose document wasn't archived keep their old ids
+    const mapSource = (source: MessageSource): MessageSource => ({
+      ...source,
+      documentId: documentIds.get(source.documentId) ?? source.documentId,
+      chunkId: chunkIds.get(source.chunkId) ?? source.chunkId,
+    })
+
+    for (const { archived, imported, synopsis } of threadImports) {
+      const documentScope = (archived.documentScope || [])
+        .map((id) => documentIds.get(id))
+        .filter((id): id is string => Boolean(id))
+      const { data: thread, error: threadError } = await supabase
+        .from("chat_threads")
+        .insert({
+          user_id: userId,
+          project_id: project.id,
+          title: imported.title || DEFAULT_THREAD_TITLE,
+          model: imported.model || undefined,
+          summary: archived.summary ?? null,
+          summarized_until: archived.summarizedUntil ?? null,
+          document_scope: documentScope.length > 0 ? documentScope : null,
+          synopsis,
+          pinned: archived.pinned === true,
+          archived: archived.archived === true,
+          created_at: imported.createdAt ?? undefined,
+        })
+        .select("id")
+        .single()
+      if (threadError || !thread) {
+        throw new Error(`Failed to create chat thread: ${threadError?.message}`)
+      }
+
+      // Threads nobody wrote in yet are recreated empty
+      if (imported.messages.length === 0) continue
+
+      // Parents come before children, so batches in order keep parent_message_id valid
+      const { rows, activeLeafId, messageIds } = buildImportedMessageRows(imported, thread.id, mapSource)
+      for (let start = 0; start < rows.length; start += PAGE_SIZE) {
+        const { error: messagesError } = await supabase.from("messages").insert(rows.slice(start, start + PAGE_SIZE))
+        if (messagesError) {
+          throw new Error(`Failed to import messages: ${messagesError.message}`)
+        }
+      }
+      const { error: leafError } = await supabase
+        .from("chat_threads")
+        .update({
+          active_leaf_id: activeLeafId,
+          summarized_through_message_id: messageIds.get(archived.summarizedThroughMessageId ?? "") ?? null,
+        })
+        .eq("id", thread.id)
+      if (leafError) {
+        throw new Error(`Failed to set the active branch: ${leafError.message}`)
+      }
+    }
+
+    for (const document of pendingDocuments) {
+      try {
+        await enqueueDocumentJob(document)
+      } catch (enqueueError) {
+        console.error(`Error enqueueing imported document ${document.id}:`, enqueueError)
+      }
+    }
+    return project
+  } catch (error) {
+    await supabase.from("projects").delete().eq("id", project.id)
+    if (uploadedUrls.length > 0) await del(uploadedUrls).catch(console.error)
+    throw error
+  }
+}
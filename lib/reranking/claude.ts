@@ -0,0 +1,43 @@
+// Claude as a relevance judge: one call with the cheap utility model grades every candidate 0-10
+// against the question. Billed to the user's own key.
+
+import Anthropic from "@anthropic-ai/sdk"
+import { UTILITY_MODEL } from "@/lib/chat/models"
+import type { RerankCandidate, Reranker, RerankResult } from "@/lib/reranking/reranker"
+
+// Candidates are trimmed so 30 of them stay well inside a cheap prompt
+const MAX_CANDIDATE_CHARS = 1500
+
+export class ClaudeReranker implements Reranker {
+  readonly id = "claude" as const
+  readonly model = UTILITY_MODEL
+
+  constructor(private readonly anthropic: Anthropic) {}
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult> {
+    if (candidates.length === 0) return { scores: [], inputTokens: 0, outputTokens: 0 }
+
+    const passages = candidates
+      .map((candidate, i) => `<passage id="${i + 1}">\n${candidate.content.slice(0, MAX_CANDIDATE_CHARS)}\n</passage>`)
+      .join("\n")
+    const response = await this.anthropic.messages.create({
+      model: this.model,
+      max_tokens: 20 + candidates.length * 8,
+      system:
+        "You grade how useful each passage is for answering a question, from 0 (irrelevant) to 10 (answers it " +
+        "directly). Reply with a JSON array of integers only, one per passage, in passage order.",
+      messages: [{ role: "user", content: `Question: ${query}\n\n${passages}` }],
+    })
+
+    const text = response.content.map((block) => (block.type === "text" ? block.text : "")).join("")
+    const grades = JSON.parse(text.slice(text.indexOf("["), text.lastIndexOf("]") + 1))
+    if (!Array.isArray(grades) || grades.length !== candidates.length) {
+      throw new Error(`Expected ${candidates.length} grades, got: ${text.slice(0, 200)}`)
+    }
+    return {
+      scores: grades.map((grade) => Math.min(Math.max(Number(grade) || 0, 0), 10) / 10),
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    }
+  }
+}
@@ -0,0 +1,43 @@
+// Cross-encoder reranking on CPU with transformers.js. Unlike the embedding model, a cross-encoder
+// reads the query and the chunk together, so it scores relevance far better than cosine similarity.
+// Downloaded from the Hugging Face hub on first use and cached; Node.js runtime only.
+
+import type { RerankCandidate, Reranker, RerankResult } from "@/lib/reranking/reranker"
+
+const LOCAL_RERANKER_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2"
+
+// Loading takes seconds, so one tokenizer/model pair is shared per server instance
+let crossEncoderPromise: Promise<{ tokenizer: any; model: any }> | null = null
+
+function getCrossEncoder() {
+  if (!crossEncoderPromise) {
+    crossEncoderPromise = import("@huggingface/transformers")
+      .then(async ({ AutoTokenizer, AutoModelForSequenceClassification }) => ({
+        tokenizer: await AutoTokenizer.from_pretrained(LOCAL_RERANKER_MODEL),
+        model: await AutoModelForSequenceClassification.from_pretrained(LOCAL_RERANKER_MODEL),
+      }))
+      .catch((error) => {
+        crossEncoderPromise = null // Let the next call retry, e.g. after a failed download
+        throw error
+      })
+  }
+  return crossEncoderPromise
+}
+
+export class LocalReranker implements Reranker {
+  readonly id = "local" as const
+  readonly model = LOCAL_RERANKER_MODEL
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult> {
+    if (candidates.length === 0) return { scores: [], inputTokens: 0, outputTokens: 0 }
+    const { tokenizer, model } = await getCrossEncoder()
+    const inputs = tokenizer(
+      candidates.map(() => query),
+      { text_pair: candidates.map((candidate) => candidate.content), padding: true, truncation: true },
+    )
+    const { logits } = await model(inputs)
+    // One relevance logit per pair; the sigmoid puts it on the same 0-1 scale as the other rerankers
+    const scores = (logits.tolist() as number[][]).map(([logit]) => 1 / (1 + Math.exp(-logit)))
+    return { scores, inputTokens: 0, outputTokens: 0 }
+  }
+}
@@ -0,0 +1,15 @@
+import type { RerankCandidate, Reranker, RerankResult } from "@/lib/reranking/reranker"
+
+// Keeps hybrid search's order: scores fall linearly from 1 with rank
+export class NoopReranker implements Reranker {
+  readonly id = "none" as const
+  readonly model = null
+
+  async rerank(_query: string, candidates: RerankCandidate[]): Promise<RerankResult> {
+    return {
+      scores: candidates.map((_, i) => 1 - i / Math.max(candidates.length, 1)),
+      inputTokens: 0,
+      outputTokens: 0,
+    }
+  }
+}
@@ -0,0 +1,30 @@
+// Rerankers rescore the candidates hybrid search returns before the chat route picks what goes into
+// the prompt. Each project picks one (retrieval_settings.reranker); implementations are created
+// through getReranker (lib/reranking/rerankers.ts).
+
+export type RerankerId = "none" | "local" | "claude"
+
+export const RERANKER_IDS: RerankerId[] = ["none", "local", "claude"]
+
+export const DEFAULT_RERANKER: RerankerId = "none"
+
+export interface RerankCandidate {
+  id: string
+  content: string
+}
+
+export interface RerankResult {
+  scores: number[] // Same order as the candidates; higher is more relevant, in 0-1
+  inputTokens: number // Billed tokens for rerankers that call a model API, otherwise 0
+  outputTokens: number
+}
+
+export interface Reranker {
+  id: RerankerId
+  model: string | null // Recorded in the usage ledger when the reranker bills tokens
+  rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult>
+}
+
+export function isRerankerId(value: unknown): value is RerankerId {
+  return typeof value === "string" && (RERANKER_IDS as string[]).includes(value)
+}
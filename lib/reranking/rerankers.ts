@@ -0,0 +1,17 @@
+import type Anthropic from "@anthropic-ai/sdk"
+import { LocalReranker } from "@/lib/reranking/local"
+import { ClaudeReranker } from "@/lib/reranking/claude"
+import { NoopReranker } from "@/lib/reranking/none"
+import { DEFAULT_RERANKER, isRerankerId, type Reranker } from "@/lib/reranking/reranker"
+
+// Unknown or missing ids fall back to the default. The Claude judge bills the user's own key.
+export function getReranker(id: string | null | undefined, anthropic: Anthropic): Reranker {
+  switch (isRerankerId(id) ? id : DEFAULT_RERANKER) {
+    case "local":
+      return new LocalReranker()
+    case "claude":
+      return new ClaudeReranker(anthropic)
+    default:
+      return new NoopReranker()
+  }
+}
@@ -31,5 +31,5 @@ export function getSupabaseAdminClient(): SupabaseClient<Database> {
   return supabaseAdminSingleton
 }
 
-// Exporting with the specific name expected by the import in process-document route
+// Exporting with the specific name expected by the document processor and job worker
 export const createSupabaseAdminClient = getSupabaseAdminClient
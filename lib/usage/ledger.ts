@@ -0,0 +1,51 @@
+// Per-user usage ledger. Every billable API call (chat replies, summaries, embeddings) adds one row
+// to usage_events so GET /api/usage can report daily totals and estimated cost per project.
+
+import { createSupabaseAdminClient } from "@/lib/supabase/admin"
+import type { TokenCounts } from "@/lib/usage/pricing"
+
+export type UsageKind =
+  | "chat"
+  | "summary"
+  | "query_embedding"
+  | "document_embedding"
+  | "chunk_context"
+  | "rerank"
+  | "query_rewrite"
+
+export interface UsageEntry extends Partial<TokenCounts> {
+  userId: string
+  projectId: string | null
+  model: string
+  kind: UsageKind
+}
+
+// Ledger writes go through the admin client: users may read their rows but never write them.
+// Failures are logged, never thrown, so accounting can't break a chat or ingestion run.
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  const totalTokens =
+    (entry.inputTokens || 0) +
+    (entry.outputTokens || 0) +
+    (entry.cacheCreationInputTokens || 0) +
+    (entry.cacheReadInputTokens || 0)
+  if (totalTokens === 0) return
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient()
+    const { error } = await supabaseAdmin.from("usage_events").insert({
+      user_id: entry.userId,
+      project_id: entry.projectId,
+      model: entry.model,
+      kind: entry.kind,
+      input_tokens: entry.inputTokens || 0,
+      output_tokens: entry.outputTokens || 0,
+      cache_creation_input_tokens: entry.cacheCreationInputTokens || 0,
+      cache_read_input_tokens: entry.cacheReadInputTokens || 0,
+    })
+    if (error) {
+      console.error("[Usage] Failed to record usage:", error)
+    }
+  } catch (error) {
+    console.error("[Usage] Failed to record usage:", error)
+  }
+}
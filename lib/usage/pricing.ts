@@ -0,0 +1,41 @@
+// Published per-million-token list prices (USD) for the models this app calls.
+// Estimates only: they ignore batch discounts and any negotiated pricing on the user's own key.
+
+interface ModelPricing {
+  input: number
+  output: number
+  cacheWrite: number
+  cacheRead: number
+}
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-3-opus-20240229": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-3-5-sonnet-20241022": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-haiku-20240307": { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+  "text-embedding-3-small": { input: 0.02, output: 0, cacheWrite: 0, cacheRead: 0 },
+}
+
+export interface TokenCounts {
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens: number
+  cacheReadInputTokens: number
+}
+
+export function isPricedModel(model: string): boolean {
+  return model in MODEL_PRICING
+}
+
+// Estimated cost in USD; unknown models are counted as free rather than guessed
+export function estimateCost(model: string, tokens: TokenCounts): number {
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) return 0
+
+  return (
+    (tokens.inputTokens * pricing.input +
+      tokens.outputTokens * pricing.output +
+      tokens.cacheCreationInputTokens * pricing.cacheWrite +
+      tokens.cacheReadInputTokens * pricing.cacheRead) /
+    1_000_000
+  )
+}
@@ -0,0 +1,189 @@
+// Plan tiers and the limits advertised on the pricing page (components/pricing/pricing-plans.tsx).
+// API routes check these before creating projects, documents and chat threads; the dashboard shows
+// current usage against them. Safe to import from client components.
+
+export type PlanTier = "free" | "pro" | "team" | "enterprise"
+
+export const PLAN_TIERS: PlanTier[] = ["free", "pro", "team", "enterprise"]
+
+export const PLAN_NAMES: Record<PlanTier, string> = {
+  free: "Free",
+  pro: "Pro",
+  team: "Team",
+  enterprise: "Enterprise",
+}
+
+// null means unlimited
+export interface PlanLimits {
+  maxProjects: number | null
+  maxDocumentBytesPerProject: number | null
+  maxChatThreadsPerProject: number | null
+}
+
+const MB = 1024 * 1024
+
+export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
+  free: { maxProjects: 3, maxDocumentBytesPerProject: 10 * MB, maxChatThreadsPerProject: 5 },
+  pro: { maxProjects: 10, maxDocumentBytesPerProject: 100 * MB, maxChatThreadsPerProject: null },
+  team: { maxProjects: 25, maxDocumentBytesPerProject: 250 * MB, maxChatThreadsPerProject: null },
+  enterprise: { maxProjects: null, maxDocumentBytesPerProject: 1024 * MB, maxChatThreadsPerProject: null },
+}
+
+export type QuotaLimit = "projects" | "document_storage" | "chat_threads"
+
+const LIMIT_KEYS: Record<QuotaLimit, keyof PlanLimits> = {
+  projects: "maxProjects",
+  document_storage: "maxDocumentBytesPerProject",
+  chat_threads: "maxChatThreadsPerProject",
+}
+
+export interface QuotaExceeded {
+  limit: QuotaLimit
+  plan: PlanTier
+  max: number
+  current: number // Usage before the rejected request (bytes for document_storage)
+  requested: number // What the request would have added
+}
+
+// JSON body returned by routes when a quota blocks the request
+export interface QuotaErrorBody extends QuotaExceeded {
+  error: string
+  code: "quota_exceeded"
+  upgradeAvailable: boolean
+}
+
+export function isPlanTier(value: unknown): value is PlanTier {
+  return typeof value === "string" && (PLAN_TIERS as string[]).includes(value)
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * MB) return `${+(bytes / (1024 * MB)).toFixed(2)}GB`
+  if (bytes >= MB) return `${+(bytes / MB).toFixed(1)}MB`
+  return `${Math.ceil(bytes / 1024)}KB`
+}
+
+// True when some higher tier raises the limit that was hit
+function canUpgrade(exceeded: QuotaExceeded): boolean {
+  const key = LIMIT_KEYS[exceeded.limit]
+  return PLAN_TIERS.slice(PLAN_TIERS.indexOf(exceeded.plan) + 1).some((tier) => {
+    const max = PLAN_LIMITS[tier][key]
+    return max === null || max >= exceeded.current + exceeded.requested
+  })
+}
+
+function describeQuota(exceeded: QuotaExceeded): string {
+  const planName = PLAN_NAMES[exceeded.plan]
+  switch (exceeded.limit) {
+    case "projects":
+      return `Your ${planName} plan allows ${exceeded.max} projects.`
+    case "chat_threads":
+      return `Your ${planName} plan allows ${exceeded.max} chat threads per project.`
+    case "document_storage":
+      return (
+        `Your ${planName} plan allows ${formatBytes(exceeded.max)} of documents per project ` +
+        `(${formatBytes(exceeded.current)} used, this file is ${formatBytes(exceeded.requested)}).`
+      )
+  }
+}
+
+// 402 when upgrading would lift the limit, 403 when no plan allows it
+export function quotaErrorResponse(exceeded: QuotaExceeded): { body: QuotaErrorBody; status: 402 | 403 } {
+  const upgradeAvailable = canUpgrade(exceeded)
+  return {
+    body: {
+      error: `${describeQuota(exceeded)}${upgradeAvailable ? " Upgrade your plan to raise this limit." : ""}`,
+      code: "quota_exceeded",
+      upgradeAvailable,
+      ...exceeded,
+    },
+    status: upgradeAvailable ? 402 : 403,
+  }
+}
+
+// Users without a settings row, or with an unknown plan value, are on Free
+export async function getUserPlan(supabase: any, userId: string): Promise<PlanTier> {
+  const { data, error } = await supabase.from("user_settings").select("plan").eq("user_id", userId).single()
+  if (error && error.code !== "PGRST116") {
+    console.error("[Quota] Failed to load user plan:", error)
+  }
+  return isPlanTier(data?.plan) ? data.plan : "free"
+}
+
+async function countRows(supabase: any, table: string, filters: Record<string, string>): Promise<number> {
+  let query = supabase.from(table).select("id", { count: "exact", head: true })
+  for (const [column, value] of Object.entries(filters)) {
+    query = query.eq(column, value)
+  }
+  const { count, error } = await query
+  if (error) {
+    throw new Error(`Failed to count ${table}: ${error.message}`)
+  }
+  return count || 0
+}
+
+export async function checkProjectQuota(supabase: any, userId: string): Promise<QuotaExceeded | null> {
+  const plan = await getUserPlan(supabase, userId)
+  const max = PLAN_LIMITS[plan].maxProjects
+  if (max === null) return null
+
+  const current = await countRows(supabase, "projects", { user_id: userId })
+  return current + 1 > max ? { limit: "projects", plan, max, current, requested: 1 } : null
+}
+
+export async function checkChatThreadQuota(
+  supabase: any,
+  userId: string,
+  projectId: string,
+): Promise<QuotaExceeded | null> {
+  const plan = await getUserPlan(supabase, userId)
+  const max = PLAN_LIMITS[plan].maxChatThreadsPerProject
+  if (max === null) return null
+
+  const current = await countRows(supabase, "chat_threads", { user_id: userId, project_id: projectId })
+  return current + 1 > max ? { limit: "chat_threads", plan, max, current, requested: 1 } : null
+}
+
+export async function checkDocumentQuota(
+  supabase: any,
+  userId: string,
+  projectId: string,
+  fileSize: number,
+): Promise<QuotaExceeded | null> {
+  const plan = await getUserPlan(supabase, userId)
+  const max = PLAN_LIMITS[plan].maxDocumentBytesPerProject
+  if (max === null) return null
+
+  const { data: documents, error } = await supabase
+    .from("documents")
+    .select("file_size")
+    .eq("user_id", userId)
+    .eq("project_id", projectId)
+  if (error) {
+    throw new Error(`Failed to load document sizes: ${error.message}`)
+  }
+
+  const current = (documents || []).reduce(
+    (total: number, document: { file_size: number | null }) => total + (document.file_size || 0),
+    0,
+  )
+  return current + fileSize > max ? { limit: "document_storage", plan, max, current, requested: fileSize } : null
+}
+
+// A project import creates a new project at once, so its files and threads are checked against the
+// per-project limits up front (the project count itself is checkProjectQuota)
+export async function checkProjectImportQuota(
+  supabase: any,
+  userId: string,
+  documentBytes: number,
+  chatThreads: number,
+): Promise<QuotaExceeded | null> {
+  const plan = await getUserPlan(supabase, userId)
+  const { maxDocumentBytesPerProject, maxChatThreadsPerProject } = PLAN_LIMITS[plan]
+  if (maxDocumentBytesPerProject !== null && documentBytes > maxDocumentBytesPerProject) {
+    return { limit: "document_storage", plan, max: maxDocumentBytesPerProject, current: 0, requested: documentBytes }
+  }
+  if (maxChatThreadsPerProject !== null && chatThreads > maxChatThreadsPerProject) {
+    return { limit: "chat_threads", plan, max: maxChatThreadsPerProject, current: 0, requested: chatThreads }
+  }
+  return null
+}
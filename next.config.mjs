@@ -10,7 +10,15 @@ const nextConfig = {
     unoptimized: true,
   },
   // Updated: moved from experimental.serverComponentsExternalPackages to serverExternalPackages
-  serverExternalPackages: ['pdf-parse', 'mammoth'],
+  serverExternalPackages: ['pdf-parse', 'mammoth', '@huggingface/transformers', 'web-tree-sitter'],
+  // tree-sitter grammars are loaded from node_modules by path (lib/documents/code-chunker.ts), so the
+  // tracer can't see them
+  outputFileTracingIncludes: {
+    '/api/jobs/process-documents': [
+      './node_modules/web-tree-sitter/tree-sitter.wasm',
+      './node_modules/tree-sitter-wasms/out/*.wasm',
+    ],
+  },
   
   // Security headers
   async headers() {
@@ -48,10 +56,10 @@ const nextConfig = {
   
   // Simplified webpack configuration
   webpack: (config, { isServer }) => {
-    // Handle server-side externals for document processing libraries
+    // Handle server-side externals for document processing and local embedding libraries
     if (isServer) {
       config.externals = config.externals || []
-      config.externals.push('pdf-parse', 'mammoth')
+      config.externals.push('pdf-parse', 'mammoth', '@huggingface/transformers', 'web-tree-sitter')
     }
 
     return config
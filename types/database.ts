@@ -1,3 +1,45 @@
+// Shape of each entry stored in messages.sources
+export interface MessageSource {
+  index: number // 1-based number used for [n] citations
+  chunkId: string
+  documentId: string
+  documentName: string
+  chunkIndex: number | null
+  pageStart?: number | null // Absent on sources saved before chunks carried page ranges
+  pageEnd?: number | null
+  headingPath?: string | null // "Setup > Timeouts" for chunks of documents with headings
+  similarity: number
+  rerankScore?: number // 0-1 score from the project's reranker; absent on sources saved before reranking
+}
+
+// Shape of each entry stored in messages.search_queries: what retrieval searched instead of the raw prompt
+export interface SearchQuery {
+  kind: "standalone" | "sub_query" | "hypothetical"
+  text: string
+}
+
+// Shape of projects.retrieval_settings; missing keys fall back to DEFAULT_RETRIEVAL_SETTINGS
+export interface ProjectRetrievalSettings {
+  matchThreshold?: number
+  matchCount?: number
+  fullTextWeight?: number
+  semanticWeight?: number
+  rrfK?: number
+  candidateCount?: number // Hybrid search results handed to the reranker
+  contextTokenBudget?: number // Upper bound on retrieved text in the prompt
+  reranker?: string // RerankerId
+  queryMode?: string // QueryMode: how the prompt is turned into search queries
+}
+
+// documents.processing_stage, in pipeline order
+export type DocumentProcessingStage =
+  | "downloading"
+  | "extracting"
+  | "chunking"
+  | "contextualizing"
+  | "embedding"
+  | "done"
+
 export interface Database {
   public: {
     Tables: {
@@ -7,6 +49,9 @@ export interface Database {
           user_id: string
           name: string
           description: string | null
+          retrieval_settings: ProjectRetrievalSettings | null
+          embedding_provider: string
+          contextual_retrieval: boolean
           created_at: string
           updated_at: string
         }
@@ -15,6 +60,9 @@ export interface Database {
           user_id: string
           name: string
           description?: string | null
+          retrieval_settings?: ProjectRetrievalSettings | null
+          embedding_provider?: string
+          contextual_retrieval?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -23,6 +71,9 @@ export interface Database {
           user_id?: string
           name?: string
           description?: string | null
+          retrieval_settings?: ProjectRetrievalSettings | null
+          embedding_provider?: string
+          contextual_retrieval?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -33,6 +84,7 @@ export interface Database {
           user_id: string
           anthropic_api_key: string | null
           preferred_model: string
+          plan: string
           created_at: string
           updated_at: string
         }
@@ -41,6 +93,7 @@ export interface Database {
           user_id: string
           anthropic_api_key?: string | null
           preferred_model?: string
+          plan?: string
           created_at?: string
           updated_at?: string
         }
@@ -49,6 +102,7 @@ export interface Database {
           user_id?: string
           anthropic_api_key?: string | null
           preferred_model?: string
+          plan?: string
           created_at?: string
           updated_at?: string
         }
@@ -63,6 +117,11 @@ export interface Database {
           file_size: number | null
           mime_type: string | null
           status: string
+          processing_stage: DocumentProcessingStage | null
+          chunks_total: number
+          chunks_processed: number
+          processing_error: string | null
+          tags: string[]
           created_at: string
           updated_at: string
         }
@@ -75,6 +134,11 @@ export interface Database {
           file_size?: number | null
           mime_type?: string | null
           status?: string
+          processing_stage?: DocumentProcessingStage | null
+          chunks_total?: number
+          chunks_processed?: number
+          processing_error?: string | null
+          tags?: string[]
           created_at?: string
           updated_at?: string
         }
@@ -87,6 +151,11 @@ export interface Database {
           file_size?: number | null
           mime_type?: string | null
           status?: string
+          processing_stage?: DocumentProcessingStage | null
+          chunks_total?: number
+          chunks_processed?: number
+          processing_error?: string | null
+          tags?: string[]
           created_at?: string
           updated_at?: string
         }
@@ -99,9 +168,15 @@ export interface Database {
           project_id: string // Added
           content: string
           context: string | null
+          generated_context: string | null
           embedding: number[] | null // In DB it's `vector`, TS type is `number[]`
           chunk_index: number | null
           tokens: number | null
+          content_hash: string | null
+          embedding_model: string | null
+          metadata: Record<string, unknown> | null
+          page_start: number | null
+          page_end: number | null
           created_at: string
         }
         Insert: {
@@ -111,9 +186,15 @@ export interface Database {
           project_id: string // Added
           content: string
           context?: string | null
+          generated_context?: string | null
           embedding?: number[] | null
           chunk_index?: number | null
           tokens?: number | null
+          content_hash?: string | null
+          embedding_model?: string | null
+          metadata?: Record<string, unknown> | null
+          page_start?: number | null
+          page_end?: number | null
           created_at?: string
         }
         Update: {
@@ -123,9 +204,15 @@ export interface Database {
           project_id?: string // Added
           content?: string
           context?: string | null
+          generated_context?: string | null
           embedding?: number[] | null
           chunk_index?: number | null
           tokens?: number | null
+          content_hash?: string | null
+          embedding_model?: string | null
+          metadata?: Record<string, unknown> | null
+          page_start?: number | null
+          page_end?: number | null
           created_at?: string
         }
       }
@@ -137,6 +224,14 @@ export interface Database {
           project_id: string // Added
           title: string | null
           model: string
+          summary: string | null
+          summarized_until: string | null
+          summarized_through_message_id: string | null
+          document_scope: string[] | null // Document ids retrieval is limited to; null for the whole project
+          synopsis: string | null // Short description for the thread list
+          pinned: boolean
+          archived: boolean
+          active_leaf_id: string | null
           created_at: string
           updated_at: string
         }
@@ -146,6 +241,14 @@ export interface Database {
           project_id: string // Added
           title?: string | null
           model?: string
+          summary?: string | null
+          summarized_until?: string | null
+          summarized_through_message_id?: string | null
+          document_scope?: string[] | null
+          synopsis?: string | null
+          pinned?: boolean
+          archived?: boolean
+          active_leaf_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -155,6 +258,14 @@ export interface Database {
           project_id?: string // Added
           title?: string | null
           model?: string
+          summary?: string | null
+          summarized_until?: string | null
+          summarized_through_message_id?: string | null
+          document_scope?: string[] | null
+          synopsis?: string | null
+          pinned?: boolean
+          archived?: boolean
+          active_leaf_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -166,6 +277,14 @@ export interface Database {
           role: string
           content: string
           tokens_used: number
+          input_tokens: number
+          output_tokens: number
+          cache_creation_input_tokens: number
+          cache_read_input_tokens: number
+          sources: MessageSource[] | null
+          search_queries: SearchQuery[] | null
+          parent_message_id: string | null
+          sibling_index: number
           created_at: string
         }
         Insert: {
@@ -174,6 +293,14 @@ export interface Database {
           role: string
           content: string
           tokens_used?: number
+          input_tokens?: number
+          output_tokens?: number
+          cache_creation_input_tokens?: number
+          cache_read_input_tokens?: number
+          sources?: MessageSource[] | null
+          search_queries?: SearchQuery[] | null
+          parent_message_id?: string | null
+          sibling_index?: number
           created_at?: string
         }
         Update: {
@@ -182,7 +309,100 @@ export interface Database {
           role?: string
           content?: string
           tokens_used?: number
+          input_tokens?: number
+          output_tokens?: number
+          cache_creation_input_tokens?: number
+          cache_read_input_tokens?: number
+          sources?: MessageSource[] | null
+          search_queries?: SearchQuery[] | null
+          parent_message_id?: string | null
+          sibling_index?: number
+          created_at?: string
+        }
+      }
+      usage_events: {
+        Row: {
+          id: string
+          user_id: string
+          project_id: string | null
+          model: string
+          kind: string
+          input_tokens: number
+          output_tokens: number
+          cache_creation_input_tokens: number
+          cache_read_input_tokens: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          project_id?: string | null
+          model: string
+          kind: string
+          input_tokens?: number
+          output_tokens?: number
+          cache_creation_input_tokens?: number
+          cache_read_input_tokens?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          project_id?: string | null
+          model?: string
+          kind?: string
+          input_tokens?: number
+          output_tokens?: number
+          cache_creation_input_tokens?: number
+          cache_read_input_tokens?: number
+          created_at?: string
+        }
+      }
+      document_jobs: {
+        Row: {
+          id: string
+          document_id: string
+          user_id: string
+          project_id: string
+          status: string
+          attempts: number
+          max_attempts: number
+          run_after: string
+          locked_by: string | null
+          lease_expires_at: string | null
+          last_error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          user_id: string
+          project_id: string
+          status?: string
+          attempts?: number
+          max_attempts?: number
+          run_after?: string
+          locked_by?: string | null
+          lease_expires_at?: string | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          document_id?: string
+          user_id?: string
+          project_id?: string
+          status?: string
+          attempts?: number
+          max_attempts?: number
+          run_after?: string
+          locked_by?: string | null
+          lease_expires_at?: string | null
+          last_error?: string | null
           created_at?: string
+          updated_at?: string
         }
       }
     }
@@ -195,6 +415,8 @@ export interface Database {
           match_count: number
           filter_user_id: string
           filter_project_id: string // Added
+          filter_embedding_model: string
+          filter_document_ids?: string[] | null // Omitted or null searches the whole project
         }
         Returns: {
           // Define the structure of the returned rows
@@ -202,9 +424,93 @@ export interface Database {
           document_id: string
           content: string
           context: string | null
+          chunk_index: number | null
           similarity: number
         }[]
       }
+      hybrid_match_document_chunks: {
+        Args: {
+          query_text: string
+          query_embedding: number[]
+          match_threshold: number
+          match_count: number
+          full_text_weight: number
+          semantic_weight: number
+          rrf_k: number
+          filter_user_id: string
+          filter_project_id: string
+          filter_embedding_model: string
+          filter_document_ids?: string[] | null // Omitted or null searches the whole project
+        }
+        Returns: {
+          id: string
+          document_id: string
+          content: string
+          context: string | null
+          chunk_index: number | null
+          page_start: number | null
+          page_end: number | null
+          similarity: number
+          lexical_rank: number
+          score: number
+        }[]
+      }
+      search_chat_history: {
+        Args: {
+          search_query: string
+          filter_user_id: string
+          match_count: number
+        }
+        Returns: {
+          thread_id: string
+          thread_title: string | null
+          project_id: string
+          project_name: string
+          message_id: string | null // Null when the thread title matched
+          message_role: string | null
+          snippet: string // Matched terms wrapped in SNIPPET_HIGHLIGHT_START/END
+          matched_at: string
+          rank: number
+        }[]
+      }
+      summarize_usage: {
+        Args: {
+          filter_user_id: string
+          since: string
+          filter_project_id?: string | null
+        }
+        Returns: {
+          day: string // YYYY-MM-DD (UTC)
+          project_id: string | null
+          kind: string
+          model: string
+          input_tokens: number
+          output_tokens: number
+          cache_creation_input_tokens: number
+          cache_read_input_tokens: number
+        }[]
+      }
+      claim_document_job: {
+        Args: {
+          worker_id: string
+          lease_seconds: number
+        }
+        Returns: Database["public"]["Tables"]["document_jobs"]["Row"][]
+      }
+      heartbeat_document_job: {
+        Args: {
+          job_id: string
+          worker_id: string
+          lease_seconds: number
+        }
+        Returns: boolean
+      }
+      enqueue_stale_document_jobs: {
+        Args: {
+          stale_after_seconds: number
+        }
+        Returns: number
+      }
     }
   }
 }
@@ -215,3 +521,5 @@ export type Document = Database["public"]["Tables"]["documents"]["Row"]
 export type DocumentChunk = Database["public"]["Tables"]["document_chunks"]["Row"]
 export type ChatThread = Database["public"]["Tables"]["chat_threads"]["Row"] // Renamed
 export type Message = Database["public"]["Tables"]["messages"]["Row"]
+export type UsageEvent = Database["public"]["Tables"]["usage_events"]["Row"]
+export type DocumentJob = Database["public"]["Tables"]["document_jobs"]["Row"]
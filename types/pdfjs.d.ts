@@ -0,0 +1,35 @@
+// The pdf.js build bundled with pdf-parse, used directly for page-aware extraction
+// (lib/documents/pdf-extractor.ts). Only the parts of the v1.10 API we call are declared.
+// The path is private to pdf-parse, so package.json pins pdf-parse to the exact release that ships it.
+declare module "pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js" {
+  interface PDFTextItem {
+    str: string
+    transform: number[] // [scaleX, skewY, skewX, scaleY, x, y]
+    width: number
+    height: number
+    fontName: string
+  }
+
+  interface PDFPageProxy {
+    getTextContent(params?: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{
+      items: PDFTextItem[]
+    }>
+  }
+
+  interface PDFOutlineItem {
+    title: string
+    dest: string | unknown[] | null
+    items: PDFOutlineItem[]
+  }
+
+  interface PDFDocumentProxy {
+    numPages: number
+    getPage(pageNumber: number): Promise<PDFPageProxy>
+    getOutline(): Promise<PDFOutlineItem[] | null>
+    getDestination(id: string): Promise<unknown[] | null>
+    getPageIndex(ref: unknown): Promise<number>
+    destroy(): Promise<void>
+  }
+
+  export function getDocument(data: Uint8Array): Promise<PDFDocumentProxy>
+}